@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getMockModelList } from '@/lib/llm/mock-provider'
 
 // 定义模型接口
 interface ModelInfo {
@@ -54,6 +55,24 @@ export async function GET() {
       }
     });
 
+    // 内置的离线 mock 提供商，只要配置了 MOCK_MODEL_LIST 即可使用，无需 API Key
+    const mockModelList = getMockModelList()
+    if (mockModelList.length > 0 && !providerConfigs.mock) {
+      const color = colors[colorIndex % colors.length]
+      providerConfigs.mock = {
+        displayName: 'Mock',
+        color
+      }
+      mockModelList.forEach(modelName => {
+        allModels.push({
+          name: `mock:${modelName}`,
+          provider: 'mock',
+          color
+        })
+      })
+      colorIndex++
+    }
+
     // 辅助函数：将 .env 中的短名称解析为 "provider:model" 的长名称
     const resolveDefaultModel = (rawName: string | undefined): string => {
       if (!rawName) return '';
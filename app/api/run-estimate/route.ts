@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { classifyAndCacheKnowledgeContent } from '@/lib/generation/knowledge-loader'
+import { estimateRun } from '@/lib/generation/run-estimate'
+import { resolveModelChain } from '@/lib/llm/model-chain'
+import { loadPricingTable } from '@/lib/llm/model-pricing'
+
+// 运行前的预估：与 /api/run-task 接收相同的配置，只计算任务数、token 和费用，不调用任何模型
+export async function POST(request: NextRequest) {
+  try {
+    const config = await request.json()
+    const modelChain = resolveModelChain(config.project?.workModel, config.project?.workModelFallbacks)
+    if (modelChain.length === 0) {
+      return NextResponse.json({ error: '未配置工作模型。请在项目概况中选择工作模型。' }, { status: 400 })
+    }
+
+    const knowledge = await classifyAndCacheKnowledgeContent(() => {})
+    const pricing = await loadPricingTable()
+    const estimate = estimateRun(knowledge, config.project, config.testConfig, modelChain, pricing)
+
+    return NextResponse.json(estimate)
+  } catch (error: any) {
+    console.error('Error estimating run:', error)
+    return NextResponse.json({ error: error.message || '预估运行消耗时发生错误' }, { status: 500 })
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { JobEvent, getJobManager, getTerminalEvent } from '@/lib/generation/job-manager'
+
+export const dynamic = 'force-dynamic';
+
+// Helper to send SSE messages in the correct format
+function sendEvent(controller: ReadableStreamDefaultController, data: object) {
+  try {
+    controller.enqueue(`data: ${JSON.stringify(data)}\n\n`)
+  } catch (e) {
+    console.error("Failed to enqueue data, stream might be closed:", e);
+  }
+}
+
+// 以 SSE 推送运行任务的进度：先推送一次当前状态（snapshot），之后推送实时进度，任务结束后关闭。
+// 断开连接不影响任务执行，页面刷新或切换面板后可以重新连接
+export async function GET(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const jobManager = getJobManager()
+  if (!(await jobManager.getJob(params.jobId))) {
+    return NextResponse.json({ error: '找不到该运行任务' }, { status: 404 })
+  }
+
+  let unsubscribe: (() => void) | undefined
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false
+      const close = () => {
+        if (closed) return
+        closed = true
+        unsubscribe?.()
+        try {
+          controller.close()
+        } catch (e) {
+          // 客户端已断开
+        }
+      }
+
+      unsubscribe = jobManager.subscribe(params.jobId, (event: JobEvent) => {
+        sendEvent(controller, event)
+        if (event.type === 'done' || event.type === 'budget_exhausted' || event.type === 'cancelled' || event.type === 'error') {
+          close()
+        }
+      })
+      if (!unsubscribe) {
+        // 任务已经结束，推送最终状态和结束事件
+        const job = await jobManager.getJob(params.jobId)
+        if (job) {
+          sendEvent(controller, { type: 'snapshot', job })
+          const terminalEvent = getTerminalEvent(job)
+          if (terminalEvent) sendEvent(controller, terminalEvent)
+        }
+        close()
+        return
+      }
+      request.signal.addEventListener('abort', close)
+    },
+    cancel() {
+      unsubscribe?.()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  })
+}
+
+// 取消运行任务，已完成的结果会保留，之后可以继续该运行
+export async function DELETE(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const jobManager = getJobManager()
+  const job = await jobManager.getJob(params.jobId)
+  if (!job) {
+    return NextResponse.json({ error: '找不到该运行任务' }, { status: 404 })
+  }
+  if (!jobManager.cancelJob(params.jobId)) {
+    return NextResponse.json({ error: '该运行任务已经结束' }, { status: 409 })
+  }
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_CONCURRENCY, getJobManager } from '@/lib/generation/job-manager'
+
+export const dynamic = 'force-dynamic';
+
+// 返回运行队列：正在执行、排队中（按执行顺序）和最近结束的任务，以及并发上限
+export async function GET() {
+  const jobManager = getJobManager()
+  return NextResponse.json({
+    concurrency: jobManager.getConcurrency(),
+    max_concurrency: MAX_CONCURRENCY,
+    jobs: jobManager.listJobs(),
+  })
+}
+
+// 修改并发上限（concurrency），或调整排队中任务的顺序（job_id + position）
+export async function PATCH(request: NextRequest) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch (error) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const jobManager = getJobManager()
+  if (body.concurrency !== undefined) {
+    const concurrency = Number(body.concurrency)
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      return NextResponse.json({ error: '并发数必须是不小于 1 的整数' }, { status: 400 })
+    }
+    jobManager.setConcurrency(concurrency)
+  }
+  if (body.job_id !== undefined) {
+    if (!jobManager.moveJob(String(body.job_id), Number(body.position) || 0)) {
+      return NextResponse.json({ error: '该任务不在队列中' }, { status: 409 })
+    }
+  }
+
+  return NextResponse.json({
+    concurrency: jobManager.getConcurrency(),
+    max_concurrency: MAX_CONCURRENCY,
+    jobs: jobManager.listJobs(),
+  })
+}
@@ -40,8 +40,10 @@ export async function POST(request: Request) {
       chunkSystemPrompt,
       documentSystemPrompt,
       comprehensiveSystemPrompt,
+      unanswerableSystemPrompt,
       knowledgeBaseFiles,
       workModel,
+      workModelFallbacks,
       workModelParams
     } = body
 
@@ -148,6 +150,9 @@ ${documentSystemPrompt || ''}
 ## 综合系统提示词
 ${comprehensiveSystemPrompt || ''}
 
+## 无法回答系统提示词
+${unanswerableSystemPrompt || ''}
+
 ## 知识库文件
 ${knowledgeBaseFiles.length > 0 ? knowledgeBaseFiles.map((file: string) => `- ${file}`).join('\n') : '无'}
 
@@ -155,6 +160,9 @@ ${knowledgeBaseFiles.length > 0 ? knowledgeBaseFiles.map((file: string) => `- ${
 ### 工作模型
 ${workModel || '未设置'}
 
+### 备用模型
+${Array.isArray(workModelFallbacks) && workModelFallbacks.length > 0 ? workModelFallbacks.map((model: string) => `- ${model}`).join('\n') : '无'}
+
 ### 工作模型参数
 \`\`\`json
 ${workModelParams ? JSON.stringify(workModelParams, null, 2) : JSON.stringify({
@@ -167,7 +175,8 @@ ${workModelParams ? JSON.stringify(workModelParams, null, 2) : JSON.stringify({
   maxTokens: [0],
   maxTokensInput: "0",
   intelligentAdjustment: false,
-  reasoningEffort: "中"
+  reasoningEffort: "中",
+  structuredOutput: false
 }, null, 2)}
 \`\`\`
 
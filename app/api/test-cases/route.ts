@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import fs from 'fs/promises'
 import path from 'path'
+import { readRunManifest } from '@/lib/generation/run-manifest'
 
 const TEST_CASES_PATH = path.join(process.cwd(), 'template', 'questions', 'test_cases.json')
 const RESULT_DIR = path.join(process.cwd(), 'output', 'result')
@@ -11,6 +12,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const timestamp = searchParams.get('timestamp')
     const tags = searchParams.get('tags')
+    const manifest = searchParams.get('manifest')
 
     if (tags === 'true') {
       // 返回tags.json内容
@@ -45,6 +47,13 @@ export async function GET(request: NextRequest) {
         console.error('Error reading tags:', error)
         return NextResponse.json({ levels: [], maxLevel: 0, tags: [] })
       }
+    } else if (manifest) {
+      // 返回指定时间戳运行的manifest.json内容（运行配置快照和运行结果统计）
+      const runManifest = await readRunManifest(path.join(RESULT_DIR, path.basename(manifest)))
+      if (!runManifest) {
+        return NextResponse.json({ error: '该运行没有 manifest 文件' }, { status: 404 })
+      }
+      return NextResponse.json(runManifest)
     } else if (timestamp) {
       // 返回指定时间戳的results.json内容
       const resultsPath = path.join(RESULT_DIR, timestamp, 'results.json')
@@ -128,11 +137,15 @@ export async function POST(request: NextRequest) {
         questionsData = questionsData.map((q: any) => {
           if (q.id === id) {
             const updatedQuestion = { ...q }
+            // 问题或答案修改后原校验结论失效
+            if (q.question !== question || q.answer !== answer) delete updatedQuestion.verification
             // Update all fields
             updatedQuestion.question = question
             updatedQuestion.answer = answer
             updatedQuestion.score = score || 10
             if (tag) updatedQuestion.tag = tag
+            // 生成时附带的其他字段（如 key_points、difficulty、evidence）原样保留在后面
+            const { id: _id, tag: _tag, source: _source, question: _question, answer: _answer, score: _score, ...extraFields } = updatedQuestion
             // Reorder fields to match desired structure
             return {
               id: updatedQuestion.id,
@@ -140,7 +153,8 @@ export async function POST(request: NextRequest) {
               ...(updatedQuestion.source && { source: updatedQuestion.source }),
               question: updatedQuestion.question,
               answer: updatedQuestion.answer,
-              score: updatedQuestion.score
+              score: updatedQuestion.score,
+              ...extraFields
             }
           }
           return q
@@ -20,6 +20,7 @@ interface ModelParamsConfig {
   maxTokensInput: string
   intelligentAdjustment: boolean
   reasoningEffort: string
+  structuredOutput: boolean
 }
 
 interface ModelParamsProps {
@@ -94,6 +95,18 @@ export function ModelParams({ config, onChange, title, defaultExpanded = false }
             />
           </div>
 
+          {/* Structured Output */}
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="space-y-1">
+              <Label className="text-sm font-medium text-foreground">启用结构化输出</Label>
+              <p className="text-xs text-muted-foreground">按 JSON 格式生成问题、答案、要点、难度和原文依据；模型不支持时自动回退为按行解析，启用后不流式输出。</p>
+            </div>
+            <Switch
+              checked={config.structuredOutput}
+              onCheckedChange={(checked) => updateConfig({ structuredOutput: checked })}
+            />
+          </div>
+
           {/* Temperature */}
           <div className="space-y-4">
             <div>
@@ -7,7 +7,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ModelParams } from "@/components/model-params"
-import { FolderOpen, FileText, Upload, Trash2, Loader2, Save, Edit, Bot } from "lucide-react"
+import { FolderOpen, FileText, Upload, Trash2, Loader2, Save, Edit, Bot, X } from "lucide-react"
 
 // 自动调整textarea高度的组件
 const AutoResizeTextarea = ({
@@ -78,6 +78,7 @@ export function ProjectOverview() {
       chunkSystemPrompt,
       documentSystemPrompt,
       comprehensiveSystemPrompt,
+      unanswerableSystemPrompt,
       knowledgeBaseFiles,
       knowledgeBaseFileData,
       isDragging,
@@ -86,6 +87,7 @@ export function ProjectOverview() {
       isEditMode,
       showSuccess,
       workModel,
+      workModelFallbacks,
       workModelParams
     },
     modelSettingsConfig: {
@@ -96,6 +98,7 @@ export function ProjectOverview() {
     setChunkSystemPrompt,
     setDocumentSystemPrompt,
     setComprehensiveSystemPrompt,
+    setUnanswerableSystemPrompt,
     setKnowledgeBaseFiles,
     setKnowledgeBaseFileData,
     setIsDragging,
@@ -106,6 +109,7 @@ export function ProjectOverview() {
     setModels,
     setProviders,
     setWorkModel,
+    setWorkModelFallbacks,
     setWorkModelParams
   } = useAppStore()
 
@@ -130,7 +134,9 @@ export function ProjectOverview() {
               chunkSystemPrompt: "",
               documentSystemPrompt: "",
               comprehensiveSystemPrompt: "",
+              unanswerableSystemPrompt: "",
               workModel: "",
+              workModelFallbacks: null as string[] | null,
               workModelParams: {
                 streamingEnabled: false,
                 temperature: [1.0],
@@ -141,7 +147,8 @@ export function ProjectOverview() {
                 maxTokens: [0],
                 maxTokensInput: "0",
                 intelligentAdjustment: false,
-                reasoningEffort: "中"
+                reasoningEffort: "中",
+                structuredOutput: false
               }
             }
 
@@ -175,7 +182,8 @@ export function ProjectOverview() {
                         maxTokens: [0],
                         maxTokensInput: "0",
                         intelligentAdjustment: false,
-                        reasoningEffort: "中"
+                        reasoningEffort: "中",
+                        structuredOutput: false
                       }
                     }
                   }
@@ -209,6 +217,10 @@ export function ProjectOverview() {
                 if (line.trim() && !line.startsWith('#')) {
                   config.comprehensiveSystemPrompt += line + '\n'
                 }
+              } else if (currentSection === "无法回答系统提示词") {
+                if (line.trim() && !line.startsWith('#')) {
+                  config.unanswerableSystemPrompt += line + '\n'
+                }
               } else if (currentSection === "工作模型配置") {
                 if (line.includes('### 工作模型') && !line.includes('### 工作模型参数')) {
                   // Look for the next non-empty line that contains the model name
@@ -220,6 +232,18 @@ export function ProjectOverview() {
                   if (nextLine && nextLine.trim() && nextLine.trim() !== '未设置') {
                     config.workModel = nextLine.trim()
                   }
+                } else if (line.includes('### 备用模型')) {
+                  // 备用模型按列表项逐行保存，直到下一个标题
+                  const fallbacks: string[] = []
+                  let nextLineIndex = i + 1
+                  while (nextLineIndex < lines.length && !lines[nextLineIndex].startsWith('#')) {
+                    const item = lines[nextLineIndex].trim()
+                    if (item.startsWith('- ')) {
+                      fallbacks.push(item.substring(2).trim())
+                    }
+                    nextLineIndex++
+                  }
+                  config.workModelFallbacks = fallbacks
                 }
               }
             }
@@ -228,6 +252,7 @@ export function ProjectOverview() {
             config.chunkSystemPrompt = config.chunkSystemPrompt.trim()
             config.documentSystemPrompt = config.documentSystemPrompt.trim()
             config.comprehensiveSystemPrompt = config.comprehensiveSystemPrompt.trim()
+            config.unanswerableSystemPrompt = config.unanswerableSystemPrompt.trim()
 
             // 设置到store中
             if (config.qaSystemPrompt) {
@@ -242,9 +267,15 @@ export function ProjectOverview() {
             if (config.comprehensiveSystemPrompt) {
               setComprehensiveSystemPrompt(config.comprehensiveSystemPrompt)
             }
+            if (config.unanswerableSystemPrompt) {
+              setUnanswerableSystemPrompt(config.unanswerableSystemPrompt)
+            }
             if (config.workModel) {
               setWorkModel(config.workModel)
             }
+            if (config.workModelFallbacks) {
+              setWorkModelFallbacks(config.workModelFallbacks)
+            }
             if (config.workModelParams) {
               setWorkModelParams(config.workModelParams)
             }
@@ -307,7 +338,8 @@ export function ProjectOverview() {
               maxTokens: [0],
               maxTokensInput: "0",
               intelligentAdjustment: false,
-              reasoningEffort: "中"
+              reasoningEffort: "中",
+              structuredOutput: false
             })
           }
         }
@@ -411,9 +443,11 @@ export function ProjectOverview() {
           chunkSystemPrompt: chunkSystemPrompt.trim(),
           documentSystemPrompt: documentSystemPrompt.trim(),
           comprehensiveSystemPrompt: comprehensiveSystemPrompt.trim(),
+          unanswerableSystemPrompt: unanswerableSystemPrompt.trim(),
           knowledgeBaseFiles: knowledgeBaseFiles,
           fileData: knowledgeBaseFileData,
           workModel: workModel,
+          workModelFallbacks: workModelFallbacks || [],
           workModelParams: workModelParams
         }),
       })
@@ -674,6 +708,18 @@ export function ProjectOverview() {
           />
         </div>
 
+        {/* 无法回答系统提示词 */}
+        <div className="space-y-2">
+          <Label className="text-lg font-medium text-foreground">无法回答系统提示词</Label>
+          <p className="text-sm text-muted-foreground">用于生成知识库无法回答的问题（相近话题、错误前提），检验被测系统能否拒答。留空时使用内置的默认提示词</p>
+          <AutoResizeTextarea
+            value={unanswerableSystemPrompt}
+            onChange={(e) => setUnanswerableSystemPrompt(e.target.value)}
+            placeholder="可选，留空时使用默认提示词..."
+            disabled={!isEditMode || isLoading}
+          />
+        </div>
+
         {/* 知识库区域 */}
         <div className="space-y-4">
           <div className="flex items-center justify-between">
@@ -792,6 +838,52 @@ export function ProjectOverview() {
             </div>
           </div>
 
+          {/* 备用模型：工作模型重试耗尽后按顺序切换 */}
+          <div className="space-y-2">
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div>
+                <Label className="text-sm font-medium text-foreground">备用模型</Label>
+                <div className="text-xs text-muted-foreground mt-1">
+                  工作模型调用失败且重试耗尽后，按顺序改用备用模型
+                </div>
+              </div>
+              <div className="w-full md:w-80 space-y-2">
+                {(workModelFallbacks || []).map((model, index) => (
+                  <div key={model} className="flex items-center justify-between gap-2 px-3 py-2 text-sm border border-border rounded-md">
+                    <span className="truncate">{index + 1}. {model}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => setWorkModelFallbacks((workModelFallbacks || []).filter(item => item !== model))}
+                      disabled={!isEditMode || isLoading}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Select
+                  value=""
+                  onValueChange={(model) => setWorkModelFallbacks([...(workModelFallbacks || []), model])}
+                  disabled={!isEditMode || isLoading}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="添加备用模型" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(models || [])
+                      .filter(model => model.name !== workModel && !(workModelFallbacks || []).includes(model.name))
+                      .map((model) => (
+                        <SelectItem key={model.name} value={model.name}>
+                          {model.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
           {/* 工作模型参数设置 */}
           <ModelParams
             config={workModelParams || {
@@ -804,7 +896,8 @@ export function ProjectOverview() {
               maxTokens: [0],
               maxTokensInput: "0",
               intelligentAdjustment: false,
-              reasoningEffort: "中"
+              reasoningEffort: "中",
+              structuredOutput: false
             }}
             onChange={setWorkModelParams}
             title="工作模型参数设置"
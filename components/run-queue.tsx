@@ -0,0 +1,215 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Eye, X } from "lucide-react"
+
+// /api/run-task/queue 返回的任务状态
+interface QueueJob {
+  id: string
+  run_id: string
+  resume: boolean
+  verify: boolean
+  status: string
+  config_summary: {
+    work_model: string
+    fallback_models: string[]
+    test_config: Record<string, any>
+  }
+  created_at: string
+  started_at?: string
+  finished_at?: string
+  message: string
+  progress: number
+  current_task: number
+  total_tasks: number
+}
+
+const JOB_STATUS_LABELS: Record<string, string> = {
+  queued: "排队中",
+  running: "运行中",
+  completed: "已完成",
+  budget_exhausted: "达到预算",
+  cancelled: "已取消",
+  failed: "失败",
+}
+
+const JOB_STATUS_STYLES: Record<string, string> = {
+  queued: "bg-muted text-muted-foreground",
+  running: "bg-blue-50 text-blue-700",
+  completed: "bg-green-50 text-green-700",
+  budget_exhausted: "bg-yellow-50 text-yellow-800",
+  cancelled: "bg-muted text-muted-foreground",
+  failed: "bg-red-50 text-red-600",
+}
+
+// 队列有未结束的任务时的刷新间隔
+const QUEUE_POLL_INTERVAL_MS = 3000
+
+interface RunQueueProps {
+  currentJobId: string
+  refreshKey: number // 加入新任务后变化，立即刷新队列
+  onViewJob: (jobId: string) => void
+}
+
+export function RunQueue({ currentJobId, refreshKey, onViewJob }: RunQueueProps) {
+  const [jobs, setJobs] = useState<QueueJob[]>([])
+  const [concurrency, setConcurrency] = useState(1)
+  const [maxConcurrency, setMaxConcurrency] = useState(1)
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null)
+
+  const applyQueue = (data: any) => {
+    setJobs(data.jobs || [])
+    setConcurrency(data.concurrency || 1)
+    setMaxConcurrency(data.max_concurrency || 1)
+  }
+
+  const loadQueue = async () => {
+    try {
+      const response = await fetch('/api/run-task/queue')
+      if (response.ok) applyQueue(await response.json())
+    } catch (error) {
+      console.error("Failed to load run queue:", error)
+    }
+  }
+
+  const patchQueue = async (body: object) => {
+    try {
+      const response = await fetch('/api/run-task/queue', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      if (response.ok) applyQueue(await response.json())
+    } catch (error) {
+      console.error("Failed to update run queue:", error)
+    }
+  }
+
+  const cancelJob = async (jobId: string) => {
+    try {
+      await fetch(`/api/run-task/${jobId}`, { method: 'DELETE' })
+    } catch (error) {
+      console.error("Failed to cancel job:", error)
+    }
+    loadQueue()
+  }
+
+  useEffect(() => {
+    loadQueue()
+  }, [refreshKey])
+
+  // 有未结束的任务时定时刷新
+  const hasActiveJobs = jobs.some((job) => job.status === 'queued' || job.status === 'running')
+  useEffect(() => {
+    if (!hasActiveJobs) return
+    const timer = setInterval(loadQueue, QUEUE_POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [hasActiveJobs])
+
+  if (jobs.length === 0) return null
+
+  const queuedJobs = jobs.filter((job) => job.status === 'queued')
+
+  return (
+    <div className="space-y-3 p-4 border border-border rounded-lg">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <div>
+          <Label className="text-sm font-medium text-foreground">运行队列</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            按顺序执行加入队列的运行，可调整排队顺序或取消
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">同时执行</span>
+          <Select value={String(concurrency)} onValueChange={(v) => patchQueue({ concurrency: Number(v) })}>
+            <SelectTrigger className="w-24 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: maxConcurrency }, (_, i) => i + 1).map((n) => (
+                <SelectItem key={n} value={String(n)}>{n} 个</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {jobs.map((job) => {
+          const queueIndex = queuedJobs.findIndex((queued) => queued.id === job.id)
+          const isActive = job.status === 'queued' || job.status === 'running'
+          const testConfig = job.config_summary.test_config
+          return (
+            <div
+              key={job.id}
+              className={`border rounded-md text-sm ${job.id === currentJobId ? "border-foreground/40" : "border-border"}`}
+            >
+              <div className="flex flex-wrap items-center gap-2 p-2">
+                <button
+                  type="button"
+                  onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                  className="flex items-center gap-2 flex-1 min-w-0 text-left"
+                >
+                  {expandedJobId === job.id ? <ChevronDown className="h-4 w-4 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 flex-shrink-0" />}
+                  <span className={`px-2 py-0.5 rounded text-xs flex-shrink-0 ${JOB_STATUS_STYLES[job.status] || ""}`}>
+                    {queueIndex >= 0 ? `排队第 ${queueIndex + 1} 位` : JOB_STATUS_LABELS[job.status] || job.status}
+                  </span>
+                  <span className="font-mono text-xs">{job.run_id}</span>
+                  <span className="truncate text-muted-foreground">
+                    {job.verify ? "答案校验 · " : job.resume ? "继续运行 · " : ""}{job.config_summary.work_model || "未知模型"}
+                    {job.status === 'running' && job.total_tasks > 0 && ` · ${job.current_task}/${job.total_tasks}`}
+                  </span>
+                </button>
+                <div className="flex items-center gap-1">
+                  {queueIndex >= 0 && (
+                    <>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="提前" disabled={queueIndex === 0}
+                        onClick={() => patchQueue({ job_id: job.id, position: queueIndex - 1 })}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="推后" disabled={queueIndex === queuedJobs.length - 1}
+                        onClick={() => patchQueue({ job_id: job.id, position: queueIndex + 1 })}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                  {job.id !== currentJobId && (
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="在上方查看进度" onClick={() => onViewJob(job.id)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {isActive && (
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-red-500 hover:text-red-600" title="取消" onClick={() => cancelJob(job.id)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {expandedJobId === job.id && (
+                <div className="border-t border-border p-2 space-y-1 text-xs text-muted-foreground">
+                  <div>{job.message}</div>
+                  <div>备用模型: {job.config_summary.fallback_models.join(" → ") || "无"}</div>
+                  <div>
+                    生成数量: QA {testConfig.qaCount ?? "-"} · 切块 {testConfig.chunkCount ?? "-"} · 文档 {testConfig.documentCount ?? "-"} · 综合 {testConfig.comprehensiveCount ?? "-"} · 无法回答 {testConfig.unanswerableCount ?? 0}
+                  </div>
+                  {(testConfig.tokenBudget > 0 || testConfig.costBudget > 0) && (
+                    <div>预算: token {testConfig.tokenBudget || "不限"} · 费用 {testConfig.costBudget || "不限"}</div>
+                  )}
+                  {testConfig.concurrency > 1 && <div>并发数: {testConfig.concurrency}</div>}
+                  {(job.verify || testConfig.verifyAnswers) && <div>校验模型: {testConfig.verifierModel || job.config_summary.work_model}</div>}
+                  {testConfig.seed !== undefined && testConfig.seed !== "" && <div>种子: {testConfig.seed}</div>}
+                  <div>加入时间: {new Date(job.created_at).toLocaleString()}</div>
+                  {job.started_at && <div>开始时间: {new Date(job.started_at).toLocaleString()}</div>}
+                  {job.finished_at && <div>结束时间: {new Date(job.finished_at).toLocaleString()}</div>}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -3,35 +3,95 @@
 import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { RunQueue } from "@/components/run-queue"
 import { useAppStore } from "@/store/app-store"
 import { useState, useEffect, useRef } from "react"
 import { AlertTriangle, Bot, HelpCircle } from "lucide-react"
 
+// 服务端 cost_update 事件推送的费用汇总（与 cost.json 一致）
+interface CostSummary {
+  currency: string
+  total: { tasks: number; cost: number }
+  by_category: Record<string, { tasks: number; cost: number }>
+  unpriced_models: string[]
+}
+
+const COST_CATEGORY_LABELS: Record<string, string> = {
+  QA: "QA",
+  Chunk: "切块",
+  Document: "文档",
+  Comprehensive: "综合",
+  Unanswerable: "无法回答",
+}
+
+const formatCost = (cost: number, currency: string) => `${currency} ${cost.toFixed(4)}`
+
+// /api/run-estimate 返回的运行前预估
+interface RunEstimate {
+  model: string
+  context_window?: number
+  currency: string
+  total_tasks: number
+  categories: Record<string, { tasks: number; questions: number; input_tokens: number; output_tokens: number; cost?: number; skipped: boolean; no_documents?: boolean }>
+  total: { input_tokens: number; output_tokens: number; cost?: number }
+  oversized: { category: string; source: string; input_tokens: number }[]
+}
+
+// 服务端运行任务的状态，重新连接进度流时首先收到
+interface JobSnapshot {
+  id: string
+  run_id: string
+  status: string
+  message: string
+  progress: number
+  current_task: number
+  total_tasks: number
+  token_usage: number
+  seed?: number
+  cost?: CostSummary
+  cache_stats?: { hits: number; misses: number }
+  current_run_state?: Record<string, any>
+}
+
+// GET /api/run-task 返回的可继续的运行
+interface ResumableRun {
+  run_id: string
+  status: string
+  created_at: string
+  work_model: string
+  completed_tasks: number
+  questions: number
+}
+
+const RESUMABLE_STATUS_LABELS: Record<string, string> = {
+  running: "已中断",
+  cancelled: "已取消",
+  failed: "运行失败",
+  budget_exhausted: "达到预算",
+}
+
 export function RunResults() {
   const [showValidationDialog, setShowValidationDialog] = useState(false)
   const [validationMessage, setValidationMessage] = useState("")
   const [totalTokenUsage, setTotalTokenUsage] = useState(0)
+  const [cacheStats, setCacheStats] = useState<{ hits: number; misses: number } | null>(null)
+  const [costSummary, setCostSummary] = useState<CostSummary | null>(null)
+  const [showEstimateDialog, setShowEstimateDialog] = useState(false)
+  const [isEstimating, setIsEstimating] = useState(false)
+  const [runEstimate, setRunEstimate] = useState<RunEstimate | null>(null)
+  const [estimateError, setEstimateError] = useState("")
+  const [budgetExhaustedMessage, setBudgetExhaustedMessage] = useState("")
+  const [usedSeed, setUsedSeed] = useState<number | null>(null)
+  const [resumableRuns, setResumableRuns] = useState<ResumableRun[]>([])
+  const [resumeRunId, setResumeRunId] = useState("")
+  const [queueRefreshKey, setQueueRefreshKey] = useState(0)
 
-  // 使用全局 AbortController 引用，确保在组件重新挂载时能访问到同一个 controller
-  // 这样切换面板后，停止运行按钮还能正常工作
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  useEffect(() => {
-    // 如果全局没有 AbortController，创建一个
-    if (!(window as any).globalAbortController) {
-      (window as any).globalAbortController = null;
-    }
-
-    // 组件挂载时，将全局 controller 引用保存到本地 ref
-    abortControllerRef.current = (window as any).globalAbortController;
-
-    // 组件卸载时，不清除全局 controller，只清除本地引用
-    return () => {
-      // 不清除全局 controller，让其他组件实例可以访问
-      abortControllerRef.current = null;
-    };
-  }, []);
+  // 当前连接的进度流。断开只是不再接收进度，服务端的运行任务继续执行
+  const streamControllerRef = useRef<AbortController | null>(null);
 
   const {
     runResultsConfig: {
@@ -40,6 +100,25 @@ export function RunResults() {
       chunkQuestionCount,
       documentQuestionCount,
       comprehensiveQuestionCount,
+      unanswerableQuestionCount,
+      qaQuestionsPerCall,
+      chunkQuestionsPerCall,
+      documentQuestionsPerCall,
+      comprehensiveQuestionsPerCall,
+      unanswerableQuestionsPerCall,
+      bypassResponseCache,
+      tokenBudget,
+      costBudget,
+      runConcurrency,
+      dedupMode,
+      dedupThreshold,
+      dedupScope,
+      dedupPromptHint,
+      verifyAnswers,
+      verifierModel,
+      classifyQuestions,
+      runSeed,
+      currentJobId,
       // 进度状态
       currentTask,
       totalTasks,
@@ -51,6 +130,7 @@ export function RunResults() {
       currentRunState
     },
     projectConfig,
+    modelSettingsConfig,
     startRun,
     stopRun,
     setRunError,
@@ -59,6 +139,21 @@ export function RunResults() {
     setChunkQuestionCount,
     setDocumentQuestionCount,
     setComprehensiveQuestionCount,
+    setUnanswerableQuestionCount,
+    setQuestionsPerCall,
+    setBypassResponseCache,
+    setTokenBudget,
+    setCostBudget,
+    setRunConcurrency,
+    setDedupMode,
+    setDedupThreshold,
+    setDedupScope,
+    setDedupPromptHint,
+    setVerifyAnswers,
+    setVerifierModel,
+    setClassifyQuestions,
+    setRunSeed,
+    setCurrentJobId,
     setCurrentTask,
     setTotalTasks,
     setProgress,
@@ -69,25 +164,32 @@ export function RunResults() {
   } = useAppStore()
 
   
-  // 组件挂载时检查是否已有任务在运行
+  // 组件挂载时重新连接最近一次的运行任务以恢复进度显示；卸载时只断开进度流，运行在服务端继续
   useEffect(() => {
-    // 如果 store 显示正在执行，但本组件没有 controller，说明是重新挂载的情况
-    if (isExecuting && !abortControllerRef.current) {
-      console.log("Detected re-mount while task is running. Task continues in background.");
-      setActiveTaskMessage("任务在后台运行中。您可以切换到其他面板，任务会继续执行。");
+    if (currentJobId) attachToJob(currentJobId)
+    return () => {
+      streamControllerRef.current?.abort()
+      streamControllerRef.current = null
     }
-  }, [isExecuting]);
+  }, []);
 
-  // 组件卸载时不要清理 EventSource，允许用户切换面板后任务继续运行
+  // 没有任务在执行时刷新可继续的运行列表
   useEffect(() => {
-    return () => {
-      // 注意：这里不 abort controller，允许任务在后台继续运行
-      // if (abortControllerRef.current) {
-      //   abortControllerRef.current.abort();
-      // }
-      console.log("RunResults component unmounting, but task continues running in background");
-    };
-  }, []);
+    if (isExecuting) return
+    const loadResumableRuns = async () => {
+      try {
+        const response = await fetch('/api/run-task')
+        if (response.ok) {
+          const runs: ResumableRun[] = await response.json()
+          setResumableRuns(runs)
+          setResumeRunId((current) => runs.some((run) => run.run_id === current) ? current : runs[0]?.run_id || "")
+        }
+      } catch (error) {
+        console.error("Failed to load resumable runs:", error)
+      }
+    }
+    loadResumableRuns()
+  }, [isExecuting]);
 
   // 验证运行条件
   const validateRunConditions = () => {
@@ -96,36 +198,147 @@ export function RunResults() {
     return errors
   }
 
-  // 处理运行按钮点击
-  const handleRunClick = () => {
+  // 发送给 /api/run-estimate 和 /api/run-task 的运行配置
+  const buildRunConfig = () => ({
+    project: projectConfig,
+    // 确保转换为数组
+    models: {
+      work: projectConfig.workModel,
+      // 包含模型参数
+      workParams: projectConfig.workModelParams
+    },
+    testConfig: {
+      qaCount: qaQuestionCount,
+      chunkCount: chunkQuestionCount,
+      documentCount: documentQuestionCount,
+      comprehensiveCount: comprehensiveQuestionCount,
+      unanswerableCount: unanswerableQuestionCount,
+      qaPerCall: qaQuestionsPerCall,
+      chunkPerCall: chunkQuestionsPerCall,
+      documentPerCall: documentQuestionsPerCall,
+      comprehensivePerCall: comprehensiveQuestionsPerCall,
+      unanswerablePerCall: unanswerableQuestionsPerCall,
+      bypassCache: bypassResponseCache,
+      tokenBudget,
+      costBudget,
+      concurrency: runConcurrency,
+      dedupMode,
+      dedupThreshold,
+      dedupScope,
+      dedupPromptHint,
+      verifyAnswers,
+      verifierModel,
+      classifyQuestions,
+      seed: runSeed,
+    },
+  })
+
+  // 处理运行按钮点击：先预估本次运行的任务数和费用，用户确认后再开始
+  const handleRunClick = async () => {
     const errors = validateRunConditions()
     if (errors.length > 0) {
       setValidationMessage(errors.join("\n"))
       setShowValidationDialog(true)
       return
     }
-    // 重置token消耗计数
+    setIsEstimating(true)
+    setRunEstimate(null)
+    setEstimateError("")
+    try {
+      const response = await fetch('/api/run-estimate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildRunConfig()),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "预估失败")
+      setRunEstimate(data)
+    } catch (error: any) {
+      setEstimateError(error.message || "预估失败")
+    } finally {
+      setIsEstimating(false)
+      setShowEstimateDialog(true)
+    }
+  }
+
+  // 重置上次运行的统计显示
+  const resetRunStats = () => {
     setTotalTokenUsage(0)
-    handleRun()
+    setCacheStats(null)
+    setCostSummary(null)
+    setBudgetExhaustedMessage("")
+    setUsedSeed(null)
   }
 
-  // 处理停止运行
-  const handleStopClick = () => {
-    console.log("Stopping run...");
-    setIsCancelled(true); // 设置 store 中的标志
+  // 确认预估后开始运行；已有运行在执行时加入队列
+  const handleConfirmRun = () => {
+    setShowEstimateDialog(false)
+    if (isExecuting) {
+      handleEnqueue(buildRunConfig())
+      return
+    }
+    resetRunStats()
+    handleRun(buildRunConfig())
+  }
+
+  // 继续未完成的运行：沿用原运行的配置和种子，只使用当前页面的预算设置
+  const handleResumeClick = () => {
+    if (!resumeRunId) return
+    resetRunStats()
+    handleRun({ resumeRunId, testConfig: { tokenBudget, costBudget, concurrency: runConcurrency } })
+  }
 
-    // 通过 AbortController 取消正在进行的 fetch 请求
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort(); // 传递到后端的abort事件
+  // 只加入队列，进度区域继续显示当前的运行
+  const handleEnqueue = async (requestBody: object) => {
+    try {
+      const response = await fetch('/api/run-task', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestBody),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "加入队列失败")
+    } catch (error: any) {
+      setValidationMessage(error.message || "加入队列失败")
+      setShowValidationDialog(true)
+    } finally {
+      setQueueRefreshKey((key) => key + 1)
     }
+  }
 
-    stopRun();
-    setIsExecuting(false);
-    setActiveTaskMessage("任务已被用户手动取消。");
+  // 在进度区域查看队列中的另一个运行
+  const handleViewJob = (jobId: string) => {
+    resetRunStats()
+    setIsExecuting(false)
+    stopRun()
+    setCurrentJobId(jobId)
+    attachToJob(jobId)
+  }
+
+  // 处理停止运行：通知服务端取消运行任务，结束后进度流会收到 cancelled 事件
+  const handleStopClick = async () => {
+    console.log("Stopping run...");
+    setIsCancelled(true); // 设置 store 中的标志
+    if (!currentJobId) {
+      stopRun();
+      setIsExecuting(false);
+      return;
+    }
+    setActiveTaskMessage("正在停止运行...");
+    try {
+      const response = await fetch(`/api/run-task/${currentJobId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        // 任务已经结束，或服务重启后已不在执行
+        stopRun();
+        setIsExecuting(false);
+      }
+    } catch (error) {
+      console.error("Failed to cancel run:", error);
+    }
   }
 
-  // 主运行函数
-  const handleRun = async () => {
+  // 主运行函数：在服务端创建运行任务，再连接其进度流
+  const handleRun = async (requestBody: object) => {
     console.log("=== 开始运行工厂测试任务 ===")
     if (isExecuting) return;
 
@@ -141,58 +354,73 @@ export function RunResults() {
     setCurrentTask(0);
     setProgress(0);
 
-    // 检查是否已经有任务在运行
-    if ((window as any).globalAbortController) {
-      console.log("Global AbortController already exists. Task is running in background.");
-      setActiveTaskMessage("检测到任务正在后台运行中。停止按钮可正常使用，但无法启动新任务。");
-      return; // 不启动新任务，但允许停止现有任务
-    }
-
-    // 创建 AbortController
-    const controller = new AbortController();
-    abortControllerRef.current = controller;
-
-    // 保存到全局引用，确保切换面板后还能访问到同一个 controller
-    (window as any).globalAbortController = controller;
-    console.log("Created new global AbortController");
-
-    // --- 2. 准备配置 ---
-    const config = {
-      project: projectConfig,
-      // 确保转换为数组
-      models: {
-        work: projectConfig.workModel,
-        // 包含模型参数
-        workParams: projectConfig.workModelParams
-      },
-      testConfig: {
-        qaCount: qaQuestionCount,
-        chunkCount: chunkQuestionCount,
-        documentCount: documentQuestionCount,
-        comprehensiveCount: comprehensiveQuestionCount,
-      },
-    };
-
     try {
-      // --- 3. 使用 fetch 发起 POST 请求 ---
+      // --- 2. 创建运行任务 ---
       const response = await fetch('/api/run-task', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(config),
-        signal: controller.signal // 关联 AbortController
+        body: JSON.stringify(requestBody),
       });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `服务器响应错误: ${response.status} ${response.statusText}`);
+      }
+      setCurrentJobId(data.job_id);
+      setQueueRefreshKey((key) => key + 1);
+
+      // --- 3. 连接进度流 ---
+      await attachToJob(data.job_id);
+    } catch (error: any) {
+      console.error("Run failed:", error);
+      setRunError(error.message);
+      setActiveTaskMessage("任务因发生错误而停止。");
+      stopRun();
+      setIsExecuting(false);
+    }
+  };
+
+  // 用运行任务的当前状态恢复进度显示
+  const applyJobSnapshot = (job: JobSnapshot) => {
+    setActiveTaskMessage(job.message);
+    setProgress(job.progress);
+    setCurrentTask(job.current_task);
+    setTotalTasks(job.total_tasks);
+    setTotalTokenUsage(job.token_usage);
+    setCostSummary(job.cost || null);
+    setCacheStats(job.cache_stats || null);
+    setUsedSeed(job.seed ?? null);
+    clearCurrentRunState();
+    if (job.current_run_state) updateCurrentRunState(job.current_run_state);
+    // 排队中的运行同样视为执行中，可以停止（移出队列）
+    if (job.status === 'running' || job.status === 'queued') {
+      setIsExecuting(true);
+      if (!runStatus?.isRunning) startRun();
+    }
+  };
+
+  // 连接运行任务的进度流（SSE）。连接时先收到一次 snapshot，之后是实时进度，任务结束后服务端关闭连接
+  const attachToJob = async (jobId: string) => {
+    streamControllerRef.current?.abort();
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
 
+    try {
+      const response = await fetch(`/api/run-task/${jobId}`, { signal: controller.signal });
+      if (response.status === 404) {
+        // 任务记录已不存在
+        setCurrentJobId("");
+        stopRun();
+        setIsExecuting(false);
+        return;
+      }
       if (!response.ok) {
         throw new Error(`服务器响应错误: ${response.status} ${response.statusText}`);
       }
-
       if (!response.body) {
         throw new Error("响应体为空");
       }
 
-      setActiveTaskMessage("已连接到服务器，任务开始执行...");
-
-      // --- 4. 手动处理流式响应 ---
+      // 手动处理流式响应
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
       let buffer = "";
@@ -200,7 +428,11 @@ export function RunResults() {
       while (true) {
         const { done, value } = await reader.read();
         if (done) {
+          // 未收到结束事件连接就断开了，通常是服务重启导致运行中断
           console.log("Stream finished.");
+          setActiveTaskMessage("与服务器的连接已断开，运行可能已中断。可以在下方继续未完成的运行。");
+          stopRun();
+          setIsExecuting(false);
           break;
         }
 
@@ -214,6 +446,9 @@ export function RunResults() {
             const data = JSON.parse(jsonStr);
 
             switch (data.type) {
+              case 'snapshot':
+                applyJobSnapshot(data.job);
+                break;
               case 'log':
                 console.log("[Server Log]:", data.message);
                 break;
@@ -229,14 +464,32 @@ export function RunResults() {
               case 'token_usage':
                 setTotalTokenUsage(data.tokenUsage);
                 break;
+              case 'seed':
+                setUsedSeed(data.seed);
+                break;
+              case 'cost_update':
+                setCostSummary(data.cost);
+                break;
+              case 'cache_stats':
+                setCacheStats({ hits: data.hits, misses: data.misses });
+                break;
               case 'done':
                 setActiveTaskMessage(data.message);
                 stopRun();
                 setIsExecuting(false);
                 setProgress(100);
-                setCurrentTask(totalTasks);
-                // 收到 done 消息后，主动 break 循环
-                // reader.cancel() 会在 finally 中执行
+                return;
+              case 'budget_exhausted':
+                // 达到运行预算，已完成的结果已保存
+                setActiveTaskMessage(data.message);
+                setBudgetExhaustedMessage(data.message);
+                stopRun();
+                setIsExecuting(false);
+                return;
+              case 'cancelled':
+                setActiveTaskMessage(data.message);
+                stopRun();
+                setIsExecuting(false);
                 return;
               case 'error':
                  throw new Error(data.message);
@@ -245,9 +498,9 @@ export function RunResults() {
         }
       }
     } catch (error: any) {
-      // 捕获所有错误，包括 fetch 失败、流读取失败和手动取消
+      // 断开进度流（切换面板或重新连接）时不影响运行
       if (error.name === 'AbortError') {
-        console.log('Fetch aborted by user.');
+        console.log('Progress stream detached.');
       } else {
         console.error("Run failed:", error);
         setRunError(error.message);
@@ -256,12 +509,30 @@ export function RunResults() {
         setIsExecuting(false);
       }
     } finally {
-        abortControllerRef.current = null;
-        // 同时清除全局 AbortController，避免残留引用
-        (window as any).globalAbortController = null;
+      if (streamControllerRef.current === controller) {
+        streamControllerRef.current = null;
+      }
     }
   };
 
+  // 每次模型调用生成的问题数选择器
+  const renderPerCallSelect = (taskType: 'QA' | 'Chunk' | 'Document' | 'Comprehensive' | 'Unanswerable', value: number) => (
+    <Select
+      value={String(value)}
+      onValueChange={(v) => setQuestionsPerCall(taskType, Number(v))}
+      disabled={isExecuting}
+    >
+      <SelectTrigger className="w-28 h-8 text-xs" title="每次模型调用生成的问题数">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {[1, 2, 3, 5, 10].map((n) => (
+          <SelectItem key={n} value={String(n)}>每次 {n} 题</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
   return (
     <div className="p-4 md:p-8 max-w-full md:max-w-4xl lg:max-w-5xl xl:max-w-6xl mx-auto">
       <div className="mb-6 border-b border-border pb-4 md:mb-8">
@@ -289,6 +560,9 @@ export function RunResults() {
               <div className="text-muted-foreground">
                 工作模型: {projectConfig.workModel || "未选择"}
               </div>
+              <div className="text-muted-foreground">
+                备用模型: {(projectConfig.workModelFallbacks || []).length > 0 ? projectConfig.workModelFallbacks.join(" → ") : "无"}
+              </div>
             </div>
           </div>
         </div>
@@ -307,6 +581,7 @@ export function RunResults() {
                 </p>
               </div>
               <div className="flex items-center gap-4">
+                {renderPerCallSelect('QA', qaQuestionsPerCall)}
                 <Slider
                   value={[qaQuestionCount]}
                   onValueChange={(value) => setQaQuestionCount(value[0])}
@@ -332,6 +607,7 @@ export function RunResults() {
                 </p>
               </div>
               <div className="flex items-center gap-4">
+                {renderPerCallSelect('Chunk', chunkQuestionsPerCall)}
                 <Slider
                   value={[chunkQuestionCount]}
                   onValueChange={(value) => setChunkQuestionCount(value[0])}
@@ -357,6 +633,7 @@ export function RunResults() {
                 </p>
               </div>
               <div className="flex items-center gap-4">
+                {renderPerCallSelect('Document', documentQuestionsPerCall)}
                 <Slider
                   value={[documentQuestionCount]}
                   onValueChange={(value) => setDocumentQuestionCount(value[0])}
@@ -382,6 +659,7 @@ export function RunResults() {
                 </p>
               </div>
               <div className="flex items-center gap-4">
+                {renderPerCallSelect('Comprehensive', comprehensiveQuestionsPerCall)}
                 <Slider
                   value={[comprehensiveQuestionCount]}
                   onValueChange={(value) => setComprehensiveQuestionCount(value[0])}
@@ -395,6 +673,235 @@ export function RunResults() {
                 </span>
               </div>
             </div>
+
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm font-medium text-foreground">无法回答问题集</Label>
+                  <span className="text-xs text-muted-foreground">unanswerable_count</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  设置知识库无法回答的问题数量，用于检验被测系统能否拒答，结果标记 answerable: false。设为 0 时不生成
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                {renderPerCallSelect('Unanswerable', unanswerableQuestionsPerCall)}
+                <Slider
+                  value={[unanswerableQuestionCount]}
+                  onValueChange={(value) => setUnanswerableQuestionCount(value[0])}
+                  max={100}
+                  min={0}
+                  step={1}
+                  className="w-48 md:w-64"
+                />
+                <span className="text-sm font-medium text-foreground min-w-[3rem] text-center">
+                  {unanswerableQuestionCount}
+                </span>
+              </div>
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm font-medium text-foreground">跳过响应缓存</Label>
+                  <span className="text-xs text-muted-foreground">bypass_cache</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  本次运行不读取也不写入响应缓存。多轮生成需要每轮得到不同结果时开启（仅在服务端开启 LLM_RESPONSE_CACHE 时生效）
+                </p>
+              </div>
+              <Switch
+                checked={bypassResponseCache}
+                onCheckedChange={setBypassResponseCache}
+                disabled={isExecuting}
+              />
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm font-medium text-foreground">问题去重</Label>
+                  <span className="text-xs text-muted-foreground">dedup</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  按字符相似度检测近似重复的问题，标记时在结果中记录 duplicate_of，删除的问题保存在 duplicates.json
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select value={dedupMode} onValueChange={(v) => setDedupMode(v as 'off' | 'flag' | 'drop')} disabled={isExecuting}>
+                  <SelectTrigger className="w-24 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">不去重</SelectItem>
+                    <SelectItem value="flag">标记</SelectItem>
+                    <SelectItem value="drop">删除</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={dedupScope} onValueChange={(v) => setDedupScope(v as 'source' | 'run')} disabled={isExecuting || dedupMode === 'off'}>
+                  <SelectTrigger className="w-28 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="source">同一来源内</SelectItem>
+                    <SelectItem value="run">整个运行</SelectItem>
+                  </SelectContent>
+                </Select>
+                <span className="text-xs text-muted-foreground">阈值</span>
+                <Input
+                  type="number"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={dedupThreshold}
+                  onChange={(e) => setDedupThreshold(Number(e.target.value) || 0.8)}
+                  className="w-20"
+                  disabled={isExecuting || dedupMode === 'off'}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm font-medium text-foreground">提示已生成的问题</Label>
+                  <span className="text-xs text-muted-foreground">previous_questions</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  多轮生成时，在提示词中列出该内容此前已生成的问题，避免重复提问。同一内容的下一轮需等上一轮完成后才开始
+                </p>
+              </div>
+              <Switch
+                checked={dedupPromptHint}
+                onCheckedChange={setDedupPromptHint}
+                disabled={isExecuting}
+              />
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm font-medium text-foreground">答案校验</Label>
+                  <span className="text-xs text-muted-foreground">verify</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  每次生成后由校验模型检查问题能否根据内容回答、答案是否忠实，结论记录在每条结果的 verification 中。会增加模型调用次数
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select value={verifierModel || projectConfig.workModel} onValueChange={setVerifierModel} disabled={isExecuting || !verifyAnswers}>
+                  <SelectTrigger className="w-48 h-8 text-xs">
+                    <SelectValue placeholder="与工作模型相同" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(modelSettingsConfig.models || []).map((model) => (
+                      <SelectItem key={model.name} value={model.name}>{model.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Switch
+                  checked={verifyAnswers}
+                  onCheckedChange={setVerifyAnswers}
+                  disabled={isExecuting}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm font-medium text-foreground">问题分类</Label>
+                  <span className="text-xs text-muted-foreground">classify</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  为每个问题标注问题类型（事实、列举、比较、步骤、数值、多跳推理、是非）和难度。结构化输出模式下由生成模型直接给出，否则生成后由工作模型补充标注
+                </p>
+              </div>
+              <Switch
+                checked={classifyQuestions}
+                onCheckedChange={setClassifyQuestions}
+                disabled={isExecuting}
+              />
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm font-medium text-foreground">随机种子</Label>
+                  <span className="text-xs text-muted-foreground">seed</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  决定运行中的所有随机选择，并传给支持 seed 的模型。留空时自动生成；填入以往运行的种子可复现该次运行
+                </p>
+              </div>
+              <Input
+                inputMode="numeric"
+                placeholder="自动生成"
+                value={runSeed}
+                onChange={(e) => setRunSeed(e.target.value)}
+                className="w-40"
+                disabled={isExecuting}
+              />
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm font-medium text-foreground">并发数</Label>
+                  <span className="text-xs text-muted-foreground">concurrency</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  同时执行的任务数，实际并发数不超过提供商的上限（可通过 &lt;PROVIDER&gt;_MAX_CONCURRENCY 调整）。任务编号和结果顺序与顺序执行一致
+                </p>
+              </div>
+              <Input
+                type="number"
+                min={1}
+                step={1}
+                value={runConcurrency}
+                onChange={(e) => setRunConcurrency(Number(e.target.value) || 1)}
+                className="w-24"
+                disabled={isExecuting}
+              />
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm font-medium text-foreground">运行预算</Label>
+                  <span className="text-xs text-muted-foreground">budget</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  累计 token 消耗或预估费用达到上限后不再开始新任务，已完成的结果照常保存。0 表示不限制
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">Token 上限</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={10000}
+                    value={tokenBudget}
+                    onChange={(e) => setTokenBudget(Number(e.target.value) || 0)}
+                    className="w-32"
+                    disabled={isExecuting}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">费用上限</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={costBudget}
+                    onChange={(e) => setCostBudget(Number(e.target.value) || 0)}
+                    className="w-24"
+                    disabled={isExecuting}
+                  />
+                </div>
+              </div>
+            </div>
           </div>
         </div>
 
@@ -420,12 +927,40 @@ export function RunResults() {
               className={runStatus?.isRunning || isExecuting
                 ? "bg-red-500 hover:bg-red-600 text-white flex-shrink-0"
                 : "bg-foreground text-background hover:bg-foreground/90 flex-shrink-0"}
+              disabled={isEstimating}
             >
-              {runStatus?.isRunning || isExecuting ? "停止运行" : "开始运行"}
+              {runStatus?.isRunning || isExecuting ? "停止运行" : isEstimating ? "预估中..." : "开始运行"}
             </Button>
+            {(runStatus?.isRunning || isExecuting) && (
+              <Button variant="outline" onClick={handleRunClick} disabled={isEstimating} className="flex-shrink-0">
+                {isEstimating ? "预估中..." : "加入队列"}
+              </Button>
+            )}
           </div>
+          {!(runStatus?.isRunning || isExecuting) && resumableRuns.length > 0 && (
+            <div className="flex flex-col md:flex-row md:items-center md:justify-end gap-2">
+              <span className="text-sm text-muted-foreground">继续未完成的运行</span>
+              <Select value={resumeRunId} onValueChange={setResumeRunId}>
+                <SelectTrigger className="w-full md:w-96">
+                  <SelectValue placeholder="选择一个未完成的运行" />
+                </SelectTrigger>
+                <SelectContent>
+                  {resumableRuns.map((run) => (
+                    <SelectItem key={run.run_id} value={run.run_id}>
+                      {run.run_id} · {RESUMABLE_STATUS_LABELS[run.status] || run.status} · 已完成 {run.completed_tasks} 个任务 · {run.work_model}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleResumeClick} disabled={!resumeRunId || isEstimating} className="flex-shrink-0">
+                继续运行
+              </Button>
+            </div>
+          )}
         </div>
 
+        <RunQueue currentJobId={currentJobId} refreshKey={queueRefreshKey} onViewJob={handleViewJob} />
+
         {/* Results section */}
         <div className="space-y-4">
           <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
@@ -439,8 +974,44 @@ export function RunResults() {
                 <span className="text-sm font-medium text-foreground">{totalTokenUsage.toLocaleString()}</span>
               </div>
             )}
+            {usedSeed !== null && (
+              <div className="flex items-center gap-2 px-3 py-1.5 bg-muted/50 rounded-lg border border-border">
+                <span className="text-sm text-muted-foreground">种子：</span>
+                <span className="text-sm font-mono text-foreground">{usedSeed}</span>
+              </div>
+            )}
+            {cacheStats && (
+              <div className="flex items-center gap-2 px-3 py-1.5 bg-muted/50 rounded-lg border border-border">
+                <span className="text-sm text-muted-foreground">缓存命中/未命中：</span>
+                <span className="text-sm font-medium text-foreground">{cacheStats.hits} / {cacheStats.misses}</span>
+              </div>
+            )}
+            {costSummary && (
+              <div
+                className="flex items-center gap-2 px-3 py-1.5 bg-muted/50 rounded-lg border border-border"
+                title={costSummary.unpriced_models.length > 0 ? `未计入费用的模型：${costSummary.unpriced_models.join(", ")}` : undefined}
+              >
+                <span className="text-sm text-muted-foreground">预估费用：</span>
+                <span className="text-sm font-medium text-foreground">{formatCost(costSummary.total.cost, costSummary.currency)}</span>
+                <span className="text-xs text-muted-foreground">
+                  {Object.entries(costSummary.by_category)
+                    .map(([category, bucket]) => `${COST_CATEGORY_LABELS[category] || category} ${bucket.cost.toFixed(4)}`)
+                    .join(" / ")}
+                </span>
+                {costSummary.unpriced_models.length > 0 && (
+                  <AlertTriangle className="h-3.5 w-3.5 text-yellow-600" />
+                )}
+              </div>
+            )}
           </div>
 
+          {budgetExhaustedMessage && !isExecuting && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <div className="text-yellow-800 font-medium text-sm">已达到运行预算</div>
+              <div className="text-yellow-700 text-xs mt-1">{budgetExhaustedMessage}</div>
+            </div>
+          )}
+
           {runStatus?.error && (
             <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
               <div className="text-red-800 font-medium text-sm">运行错误</div>
@@ -460,9 +1031,12 @@ export function RunResults() {
                       <div className="flex items-center justify-between font-semibold text-green-700 mb-1 text-xs uppercase tracking-wide">
                         <div className="flex items-center gap-2">
                           <HelpCircle size={14} /> Question #{currentRunState.questionId}
+                          {currentRunState.isStreaming && (
+                            <span className="normal-case font-normal text-blue-600 animate-pulse">生成中...</span>
+                          )}
                         </div>
                         <span className="font-mono text-xs text-muted-foreground lowercase">
-                          {projectConfig.workModel}
+                          {currentRunState.model || projectConfig.workModel}
                         </span>
                       </div>
                       <p className="text-sm p-2 bg-green-50 rounded">{currentRunState.questionText}</p>
@@ -523,6 +1097,84 @@ export function RunResults() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* 运行前预估确认对话框 */}
+      <Dialog open={showEstimateDialog} onOpenChange={setShowEstimateDialog}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>运行预估</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 text-sm">
+            {estimateError && (
+              <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>无法完成预估：{estimateError}</span>
+              </div>
+            )}
+            {runEstimate && (
+              <>
+                <div className="text-muted-foreground">
+                  模型: {runEstimate.model}
+                  {runEstimate.context_window ? ` · 上下文窗口 ${runEstimate.context_window.toLocaleString()} tokens` : " · 上下文窗口未知"}
+                </div>
+                <table className="w-full text-left">
+                  <thead className="text-xs text-muted-foreground border-b border-border">
+                    <tr>
+                      <th className="py-1 font-normal">类别</th>
+                      <th className="py-1 font-normal text-right">任务数</th>
+                      <th className="py-1 font-normal text-right">问题数</th>
+                      <th className="py-1 font-normal text-right">输入 tokens</th>
+                      <th className="py-1 font-normal text-right">输出 tokens</th>
+                      <th className="py-1 font-normal text-right">预估费用</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.entries(runEstimate.categories).map(([category, estimate]) => (
+                      <tr key={category} className={estimate.skipped || estimate.no_documents ? "text-muted-foreground" : ""}>
+                        <td className="py-1">{COST_CATEGORY_LABELS[category] || category}{estimate.skipped && "（提示词为空，跳过）"}{estimate.no_documents && "（知识库中没有文档，跳过）"}</td>
+                        <td className="py-1 text-right">{estimate.tasks.toLocaleString()}</td>
+                        <td className="py-1 text-right">{estimate.questions.toLocaleString()}</td>
+                        <td className="py-1 text-right">{estimate.input_tokens.toLocaleString()}</td>
+                        <td className="py-1 text-right">{estimate.output_tokens.toLocaleString()}</td>
+                        <td className="py-1 text-right">{estimate.cost !== undefined ? formatCost(estimate.cost, runEstimate.currency) : "-"}</td>
+                      </tr>
+                    ))}
+                    <tr className="border-t border-border font-medium">
+                      <td className="py-1">合计</td>
+                      <td className="py-1 text-right">{runEstimate.total_tasks.toLocaleString()}</td>
+                      <td className="py-1 text-right"></td>
+                      <td className="py-1 text-right">{runEstimate.total.input_tokens.toLocaleString()}</td>
+                      <td className="py-1 text-right">{runEstimate.total.output_tokens.toLocaleString()}</td>
+                      <td className="py-1 text-right">{runEstimate.total.cost !== undefined ? formatCost(runEstimate.total.cost, runEstimate.currency) : "价格表中无此模型"}</td>
+                    </tr>
+                  </tbody>
+                </table>
+                {runEstimate.oversized.length > 0 && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 space-y-1">
+                    <div className="font-medium">以下 {runEstimate.oversized.length} 项内容可能超出模型上下文窗口：</div>
+                    <ul className="text-xs max-h-32 overflow-y-auto space-y-0.5">
+                      {runEstimate.oversized.map((item, index) => (
+                        <li key={index}>[{COST_CATEGORY_LABELS[item.category] || item.category}] {item.source} · 约 {item.input_tokens.toLocaleString()} tokens</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <div className="text-xs text-muted-foreground">
+                  token 数按字符数粗略估算，输出按每个问题约 400 tokens 计，实际消耗以运行结果为准。
+                </div>
+              </>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowEstimateDialog(false)}>
+                取消
+              </Button>
+              <Button onClick={handleConfirmRun} className="bg-foreground text-background hover:bg-foreground/90">
+                {isExecuting ? "加入队列" : "确认运行"}
+              </Button>
+            </DialogFooter>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
@@ -6,7 +6,8 @@ import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { AlertTriangle } from "lucide-react"
-import { Pencil, Trash2, X, Check, Loader2 } from "lucide-react"
+import { Pencil, Trash2, X, Check, Loader2, ChevronDown, ChevronRight, ShieldCheck } from "lucide-react"
+import { useAppStore } from "@/store/app-store"
 
 interface Question {
   id: number
@@ -15,6 +16,106 @@ interface Question {
   score: number
   tag?: string
   source?: string
+  key_points?: string[]
+  difficulty?: string
+  question_type?: string
+  evidence?: string
+  error_category?: string
+  model?: string
+  sources?: string[]
+  duplicate_of?: number
+  answerable?: boolean
+  verification?: { verdict: string; confidence: number; rationale: string; model?: string }
+}
+
+// 运行目录下 manifest.json 中页面需要展示的部分
+interface RunManifest {
+  run_id: string
+  created_at: string
+  app_version: string
+  status: string
+  seed: number
+  models: { work_model: string; fallback_models: string[]; params: Record<string, unknown> }
+  prompts: { qa: string; chunk: string; document: string; comprehensive: string; unanswerable?: string }
+  test_config: Record<string, unknown>
+  knowledge_files: { name: string; size: number; sha256: string }[]
+  finished_at?: string
+  duration_ms?: number
+  error?: string
+  summary?: {
+    tasks: number
+    questions: number
+    failed_questions: number
+    failures_by_category: Record<string, number>
+    token_usage: { total_tokens: number }
+    cost: number
+    currency: string
+    verdicts?: Record<string, number>
+    question_types?: Record<string, number>
+    difficulties?: Record<string, number>
+  }
+}
+
+const RUN_STATUS_LABELS: Record<string, string> = {
+  running: "运行中或异常中断",
+  completed: "已完成",
+  budget_exhausted: "达到预算提前结束",
+  cancelled: "已取消",
+  failed: "运行失败",
+}
+
+const VERDICT_LABELS: Record<string, string> = {
+  supported: "有依据",
+  unfaithful: "答案不忠实",
+  unanswerable: "无法回答",
+  error: "校验失败",
+}
+
+const VERDICT_STYLES: Record<string, string> = {
+  supported: "bg-green-50 text-green-700",
+  unfaithful: "bg-red-50 text-red-600",
+  unanswerable: "bg-yellow-50 text-yellow-800",
+  error: "bg-muted text-muted-foreground",
+}
+
+// 无法回答的问题校验结论应为 unanswerable，其他结论说明问题实际可以回答
+const getVerdictStyle = (question: Question) => {
+  const verdict = question.verification?.verdict || ""
+  if (question.answerable !== false || verdict === "error") return VERDICT_STYLES[verdict] || "bg-muted"
+  return verdict === "unanswerable" ? VERDICT_STYLES.supported : VERDICT_STYLES.unfaithful
+}
+
+const QUESTION_TYPE_LABELS: Record<string, string> = {
+  factoid: "事实",
+  list: "列举",
+  comparison: "比较",
+  procedural: "步骤",
+  numeric: "数值",
+  multi_hop: "多跳推理",
+  yes_no: "是非",
+}
+
+const DIFFICULTY_LABELS: Record<string, string> = {
+  easy: "简单",
+  medium: "中等",
+  hard: "困难",
+}
+
+// 按数量从多到少列出分布，附带占比，便于看出题集是否偏向某一类
+const formatDistribution = (counts: Record<string, number>, labels: Record<string, string>) => {
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0)
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([key, count]) => `${labels[key] || key} ${count}（${Math.round((count / total) * 100)}%）`)
+    .join("，")
+}
+
+const PROMPT_LABELS: Record<string, string> = {
+  qa: "QA",
+  chunk: "切块",
+  document: "文档",
+  comprehensive: "综合",
+  unanswerable: "无法回答",
 }
 
 export function TestQuestions() {
@@ -26,6 +127,15 @@ export function TestQuestions() {
   const [selectedTimestamp, setSelectedTimestamp] = useState<string>("")
   const [useResultsFile, setUseResultsFile] = useState(false)
 
+  // 当前运行的配置快照
+  const [runManifest, setRunManifest] = useState<RunManifest | null>(null)
+  const [showManifest, setShowManifest] = useState(false)
+
+  // 按校验结论筛选，unverified 表示尚未校验
+  const [verdictFilter, setVerdictFilter] = useState("all")
+  const [verifyMessage, setVerifyMessage] = useState("")
+  const { runResultsConfig: { verifierModel, runConcurrency }, setCurrentJobId } = useAppStore()
+
   // 标签层级相关状态
   const [tagLevels, setTagLevels] = useState<string[][]>([])
   const [maxLevel, setMaxLevel] = useState(0)
@@ -250,6 +360,23 @@ export function TestQuestions() {
     }
   }, [selectedTimestamp, timestamps])
 
+  // 加载所选运行的 manifest，较早的运行没有该文件
+  useEffect(() => {
+    setRunManifest(null)
+    if (!selectedTimestamp) return
+    const loadManifest = async () => {
+      try {
+        const response = await fetch(`/api/test-cases?manifest=${selectedTimestamp}`)
+        if (response.ok) {
+          setRunManifest(await response.json())
+        }
+      } catch (error) {
+        console.error("Failed to load manifest:", error)
+      }
+    }
+    loadManifest()
+  }, [selectedTimestamp])
+
   const handleEdit = (question: Question) => {
     setEditingId(question.id)
     setEditQuestion(question.question)
@@ -292,6 +419,32 @@ export function TestQuestions() {
     setShowDeleteConfirm(id)
   }
 
+  // 将当前运行的答案校验加入运行队列，只校验尚未校验的问题，进度在运行页面查看
+  const handleVerify = async () => {
+    if (!selectedTimestamp) return
+    setVerifyMessage("")
+    try {
+      const response = await fetch('/api/run-task', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ verifyRunId: selectedTimestamp, testConfig: { verifierModel, concurrency: runConcurrency } }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "加入队列失败")
+      setCurrentJobId(data.job_id)
+      setVerifyMessage("已加入运行队列，可在运行结果页面查看进度，完成后重新选择该运行即可看到校验结论")
+    } catch (error: any) {
+      setVerifyMessage(error.message || "加入队列失败")
+    }
+  }
+
+  const visibleQuestions = questions.filter((question) => {
+    if (verdictFilter === "all") return true
+    // 无法回答的问题不做答案校验，不算作未校验
+    if (verdictFilter === "unverified") return !question.verification && question.answerable !== false
+    return question.verification?.verdict === verdictFilter
+  })
+
   const cancelDelete = () => {
     setShowDeleteConfirm(null)
   }
@@ -328,21 +481,122 @@ export function TestQuestions() {
       {timestamps.length > 0 && (
         <div className="mb-6 space-y-2">
           <Label className="text-sm font-medium text-foreground">选择运行结果</Label>
-          <Select value={selectedTimestamp} onValueChange={setSelectedTimestamp}>
-            <SelectTrigger className="w-full md:w-64">
-              <SelectValue placeholder="选择一个时间戳查看结果" />
-            </SelectTrigger>
-            <SelectContent>
-              {timestamps.map((timestamp) => (
-                <SelectItem key={timestamp} value={timestamp}>
-                  {timestamp} {timestamp === timestamps[0]}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <div className="flex flex-col md:flex-row gap-2">
+            <Select value={selectedTimestamp} onValueChange={setSelectedTimestamp}>
+              <SelectTrigger className="w-full md:w-64">
+                <SelectValue placeholder="选择一个时间戳查看结果" />
+              </SelectTrigger>
+              <SelectContent>
+                {timestamps.map((timestamp) => (
+                  <SelectItem key={timestamp} value={timestamp}>
+                    {timestamp} {timestamp === timestamps[0]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={verdictFilter} onValueChange={setVerdictFilter}>
+              <SelectTrigger className="w-full md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">全部校验结论</SelectItem>
+                {Object.entries(VERDICT_LABELS).map(([verdict, label]) => (
+                  <SelectItem key={verdict} value={verdict}>{label}</SelectItem>
+                ))}
+                <SelectItem value="unverified">未校验</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleVerify} disabled={!selectedTimestamp}>
+              <ShieldCheck className="h-4 w-4 mr-1" />
+              校验答案
+            </Button>
+          </div>
           <p className="text-xs text-muted-foreground">
             您可以自由编辑、删除或添加问题，所有操作都会保存到当前选择的results.json文件中
           </p>
+          {verifyMessage && <p className="text-xs text-muted-foreground">{verifyMessage}</p>}
+        </div>
+      )}
+
+      {/* 运行信息 */}
+      {runManifest && (
+        <div className="mb-6 border border-border rounded-lg bg-background">
+          <button
+            type="button"
+            onClick={() => setShowManifest(!showManifest)}
+            className="w-full flex flex-wrap items-center gap-2 p-3 text-left text-sm"
+          >
+            {showManifest ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            <span className="font-medium text-foreground">运行信息</span>
+            <span className={`px-2 py-0.5 rounded text-xs ${runManifest.status === "completed" ? "bg-green-50 text-green-700" : runManifest.status === "failed" ? "bg-red-50 text-red-600" : "bg-yellow-50 text-yellow-800"}`}>
+              {RUN_STATUS_LABELS[runManifest.status] || runManifest.status}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              模型: {runManifest.models.work_model} · 种子: {runManifest.seed}
+              {runManifest.summary && ` · ${runManifest.summary.questions} 个问题，失败 ${runManifest.summary.failed_questions} 个`}
+            </span>
+          </button>
+          {showManifest && (
+            <div className="border-t border-border p-3 space-y-3 text-xs text-muted-foreground">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1">
+                <div>开始时间: {new Date(runManifest.created_at).toLocaleString()}</div>
+                {runManifest.duration_ms !== undefined && <div>耗时: {(runManifest.duration_ms / 1000).toFixed(1)} 秒</div>}
+                <div>应用版本: {runManifest.app_version}</div>
+                <div>备用模型: {runManifest.models.fallback_models.join(" → ") || "无"}</div>
+                {runManifest.summary && (
+                  <>
+                    <div>完成任务: {runManifest.summary.tasks}</div>
+                    <div>Token 消耗: {runManifest.summary.token_usage.total_tokens.toLocaleString()}</div>
+                    <div>预估费用: {runManifest.summary.currency} {runManifest.summary.cost.toFixed(4)}</div>
+                    {runManifest.summary.question_types && Object.keys(runManifest.summary.question_types).length > 0 && (
+                      <div className="md:col-span-2">
+                        题型分布: {formatDistribution(runManifest.summary.question_types, QUESTION_TYPE_LABELS)}
+                      </div>
+                    )}
+                    {runManifest.summary.difficulties && Object.keys(runManifest.summary.difficulties).length > 0 && (
+                      <div className="md:col-span-2">
+                        难度分布: {formatDistribution(runManifest.summary.difficulties, DIFFICULTY_LABELS)}
+                      </div>
+                    )}
+                    {runManifest.summary.verdicts && (
+                      <div>
+                        校验结论: {Object.entries(runManifest.summary.verdicts).map(([verdict, count]) => `${VERDICT_LABELS[verdict] || verdict} ${count}`).join("，")}
+                      </div>
+                    )}
+                    {Object.keys(runManifest.summary.failures_by_category).length > 0 && (
+                      <div>
+                        失败类别: {Object.entries(runManifest.summary.failures_by_category).map(([category, count]) => `${category} ${count}`).join("，")}
+                      </div>
+                    )}
+                  </>
+                )}
+                {runManifest.error && <div className="md:col-span-2 text-red-600">错误: {runManifest.error}</div>}
+              </div>
+              <div>
+                <div className="font-medium text-foreground mb-1">模型参数与生成设置</div>
+                <pre className="whitespace-pre-wrap break-all bg-muted rounded p-2">
+                  {JSON.stringify({ params: runManifest.models.params, test_config: runManifest.test_config }, null, 2)}
+                </pre>
+              </div>
+              <div>
+                <div className="font-medium text-foreground mb-1">知识库文件 ({runManifest.knowledge_files.length})</div>
+                <div className="space-y-0.5">
+                  {runManifest.knowledge_files.map((file) => (
+                    <div key={file.name} className="flex gap-2">
+                      <span className="truncate">{file.name}</span>
+                      <span className="font-mono" title={file.sha256}>{file.sha256.substring(0, 12)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              {Object.entries(runManifest.prompts).map(([key, prompt]) => (
+                <div key={key}>
+                  <div className="font-medium text-foreground mb-1">{PROMPT_LABELS[key] || key} 系统提示词</div>
+                  <pre className="whitespace-pre-wrap break-all bg-muted rounded p-2 max-h-40 overflow-auto">{prompt || "（空）"}</pre>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -355,7 +609,7 @@ export function TestQuestions() {
       )}
 
       <div className="space-y-4">
-        {questions.map((question) => (
+        {visibleQuestions.map((question) => (
           <div key={question.id} className="border border-border rounded-lg p-4 space-y-3 bg-background">
             {editingId === question.id ? (
               <>
@@ -461,7 +715,7 @@ export function TestQuestions() {
             ) : (
               <>
                 {/* 显示额外的字段信息（如果存在） */}
-                {(question.tag || question.source) && (
+                {(question.tag || question.source || question.difficulty || question.question_type || question.model || question.sources || question.error_category || question.duplicate_of || question.verification || question.answerable === false) && (
                   <div className="flex flex-wrap gap-2 text-xs text-muted-foreground border-b border-border pb-2">
                     {question.tag && (
                       <span className="px-2 py-1 bg-muted rounded">
@@ -473,6 +727,50 @@ export function TestQuestions() {
                         来源: {question.source}
                       </span>
                     )}
+                    {question.answerable === false && (
+                      <span className="px-2 py-1 bg-muted rounded" title="知识库无法回答该问题，被测系统应拒答">
+                        应拒答
+                      </span>
+                    )}
+                    {question.question_type && (
+                      <span className="px-2 py-1 bg-muted rounded">
+                        题型: {QUESTION_TYPE_LABELS[question.question_type] || question.question_type}
+                      </span>
+                    )}
+                    {question.difficulty && (
+                      <span className="px-2 py-1 bg-muted rounded">
+                        难度: {DIFFICULTY_LABELS[question.difficulty] || question.difficulty}
+                      </span>
+                    )}
+                    {question.sources && question.sources.length > 0 && (
+                      <span className="px-2 py-1 bg-muted rounded" title={question.sources.join("\n")}>
+                        上下文: {question.sources.length} 个文件
+                      </span>
+                    )}
+                    {question.model && (
+                      <span className="px-2 py-1 bg-muted rounded">
+                        模型: {question.model}
+                      </span>
+                    )}
+                    {question.error_category && (
+                      <span className="px-2 py-1 bg-red-50 text-red-600 rounded">
+                        错误类别: {question.error_category}
+                      </span>
+                    )}
+                    {question.duplicate_of && (
+                      <span className="px-2 py-1 bg-yellow-50 text-yellow-800 rounded">
+                        与第 {question.duplicate_of} 题重复
+                      </span>
+                    )}
+                    {question.verification && (
+                      <span
+                        className={`px-2 py-1 rounded ${getVerdictStyle(question)}`}
+                        title={question.verification.rationale}
+                      >
+                        {VERDICT_LABELS[question.verification.verdict] || question.verification.verdict}
+                        {question.verification.verdict !== "error" && ` · ${Math.round(question.verification.confidence * 100)}%`}
+                      </span>
+                    )}
                   </div>
                 )}
                 <div className="space-y-2">
@@ -481,6 +779,21 @@ export function TestQuestions() {
                 <div className="space-y-2">
                   <p className="text-sm text-muted-foreground whitespace-pre-wrap">{question.answer}</p>
                 </div>
+                {/* 结构化输出生成的附加信息 */}
+                {(question.key_points?.length || question.evidence) && (
+                  <div className="space-y-1 text-xs text-muted-foreground">
+                    {question.key_points && question.key_points.length > 0 && (
+                      <ul className="list-disc pl-4">
+                        {question.key_points.map((point, index) => (
+                          <li key={index}>{point}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {question.evidence && (
+                      <p className="border-l-2 border-border pl-2 italic whitespace-pre-wrap">{question.evidence}</p>
+                    )}
+                  </div>
+                )}
                 <div className="flex justify-end gap-2 pt-2">
                   <Button
                     variant="ghost"
@@ -0,0 +1,108 @@
+// lib/generation/answer-verifier.ts
+import { ChatMessage } from '@/lib/llm/types';
+
+// 任务目录下保存生成时提供给模型的上下文，校验时据此判断问题和答案是否有依据
+export const CONTEXT_FILE_NAME = 'context.txt';
+
+/**
+ * 校验结论：
+ * supported：可以根据给定内容回答，且答案与内容一致；
+ * unfaithful：问题可以回答，但答案与内容不符或包含内容中没有的信息；
+ * unanswerable：无法根据给定内容回答该问题；
+ * error：校验模型调用失败或回复无法解析
+ */
+export type VerificationVerdict = 'supported' | 'unfaithful' | 'unanswerable' | 'error';
+
+export const VERIFICATION_VERDICT_LABELS: Record<VerificationVerdict, string> = {
+  supported: '有依据',
+  unfaithful: '答案不忠实',
+  unanswerable: '无法回答',
+  error: '校验失败',
+};
+
+/**
+ * results.json 中每条记录的 verification 字段
+ */
+export interface AnswerVerification {
+  verdict: VerificationVerdict;
+  confidence: number;  // 0~1，校验模型对结论的把握
+  rationale: string;   // 结论的理由，失败时为错误信息
+  model?: string;      // 实际完成校验的模型
+}
+
+/**
+ * 结构化输出模式下约束校验模型回复的 JSON Schema
+ */
+export const VERIFICATION_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    verdict: {
+      type: 'string',
+      enum: ['supported', 'unfaithful', 'unanswerable'],
+      description: 'supported：可根据内容回答且答案忠实；unfaithful：答案与内容不符或无依据；unanswerable：无法根据内容回答',
+    },
+    confidence: { type: 'number', description: '对结论的把握，0 到 1 之间' },
+    rationale: { type: 'string', description: '简要说明理由' },
+  },
+  required: ['verdict', 'confidence', 'rationale'],
+  additionalProperties: false,
+} as const;
+
+const VERIFIER_SYSTEM_PROMPT = `你是一名严格的测试题审核员。你会收到一段参考内容，以及根据这段内容生成的一道问题和答案。请判断：
+1. 问题是否可以仅根据参考内容回答；
+2. 答案是否忠实于参考内容，没有与内容矛盾或内容中不存在的信息。
+
+按以下 JSON 格式回复，不要输出其他内容：
+{"verdict": "supported | unfaithful | unanswerable", "confidence": 0到1之间的数字, "rationale": "简要理由"}
+
+verdict 取值：supported 表示可以回答且答案忠实；unfaithful 表示可以回答但答案不忠实；unanswerable 表示无法根据参考内容回答。`;
+
+const VERDICTS = new Set(['supported', 'unfaithful', 'unanswerable']);
+
+/**
+ * 构造校验请求
+ * @param context 生成该问题时提供给模型的内容
+ */
+export function buildVerificationMessages(context: string, question: string, answer: string): { systemPrompt: string; messages: ChatMessage[] } {
+  return {
+    systemPrompt: VERIFIER_SYSTEM_PROMPT,
+    messages: [{ role: 'user', content: `--- 参考内容 ---\n${context}\n\n--- 问题 ---\n${question}\n\n--- 答案 ---\n${answer}` }],
+  };
+}
+
+/**
+ * 解析校验模型的回复，结构化输出时直接使用对象，否则从文本中提取第一个 JSON 对象
+ * @returns 无法解析出有效结论时返回 undefined
+ */
+export function parseVerification(content: string, object?: unknown): Omit<AnswerVerification, 'model'> | undefined {
+  let data: any = object;
+  if (!data || typeof data !== 'object') {
+    const match = content.match(/\{[\s\S]*\}/);
+    if (!match) return undefined;
+    try {
+      data = JSON.parse(match[0]);
+    } catch (error) {
+      return undefined;
+    }
+  }
+  const verdict = typeof data.verdict === 'string' ? data.verdict.trim().toLowerCase() : '';
+  if (!VERDICTS.has(verdict)) return undefined;
+  const confidence = Number(data.confidence);
+  return {
+    verdict: verdict as VerificationVerdict,
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+    rationale: typeof data.rationale === 'string' ? data.rationale.trim() : '',
+  };
+}
+
+/**
+ * 按校验结论统计 results.json 中的记录数，没有任何记录经过校验时返回 undefined
+ */
+export function countVerdicts(results: any[]): Record<string, number> | undefined {
+  const counts: Record<string, number> = {};
+  for (const entry of results) {
+    const verdict = entry.verification?.verdict;
+    if (verdict) counts[verdict] = (counts[verdict] || 0) + 1;
+  }
+  return Object.keys(counts).length > 0 ? counts : undefined;
+}
@@ -0,0 +1,168 @@
+// lib/generation/context-packer.ts
+import { estimateTextTokens } from '@/lib/llm/token-estimator';
+import { getContextWindow } from '@/lib/llm/model-capabilities';
+import { KnowledgeItem } from './knowledge-loader';
+import { DocumentRelatednessIndex } from './document-selector';
+
+// 综合任务上下文的默认 token 上限。上下文窗口很大的模型（如百万级）也不必每次塞满，控制单次调用的费用
+const DEFAULT_MAX_CONTEXT_TOKENS = 32000;
+// 上下文窗口未知时使用的保守值
+const FALLBACK_CONTEXT_WINDOW = 32768;
+// token 数按字符估算（见 token-estimator），不是真实分词结果：代码、数字、英文缩写较多或分词器对中文切分更细时，
+// 真实 token 数可能比估算多出约三分之一。输入部分按估算值乘以该系数计入上下文窗口
+const ESTIMATE_SAFETY_FACTOR = 1.35;
+const DOCUMENT_SEPARATOR = '\n\n---\n\n';
+// 每个文档至少分到的 token 数，低于此值的节选很难支撑跨文档的问题
+const MIN_DOCUMENT_SHARE_TOKENS = 256;
+
+/**
+ * 打包好的综合任务上下文
+ */
+export interface PackedContext {
+  text: string;
+  sources: string[]; // 进入上下文的来源文件，按出现顺序
+  tokens: number;    // 按字符估算的 token 数，不是真实分词结果
+}
+
+/**
+ * 计算综合任务上下文可用的估算 token 数：模型链中最小的上下文窗口减去预留的输出空间，按 ESTIMATE_SAFETY_FACTOR 留出估算误差后，
+ * 再减去系统提示词和指令，且不超过 COMPREHENSIVE_CONTEXT_MAX_TOKENS（默认 32000）
+ * @param models 工作模型及备用模型，备用模型的窗口更小时以其为准，保证切换后也不超长
+ * @param reservedTokens 系统提示词、附加指令等其他输入的估算 token 数
+ * @param maxOutputTokens 预留的输出 token 数
+ * @returns 与 estimateTextTokens 同一口径的估算值
+ */
+export function computeContextTokenBudget(models: string[], reservedTokens: number, maxOutputTokens: number): number {
+  const windows = models.map(model => getContextWindow(model) ?? FALLBACK_CONTEXT_WINDOW);
+  const contextWindow = windows.length > 0 ? Math.min(...windows) : FALLBACK_CONTEXT_WINDOW;
+  const envCap = Number(process.env.COMPREHENSIVE_CONTEXT_MAX_TOKENS);
+  const cap = Number.isFinite(envCap) && envCap > 0 ? envCap : DEFAULT_MAX_CONTEXT_TOKENS;
+  const available = Math.floor((contextWindow - maxOutputTokens) / ESTIMATE_SAFETY_FACTOR) - reservedTokens;
+  return Math.max(0, Math.min(cap, available));
+}
+
+/**
+ * 将文档按章节拆分：有 Markdown 标题时按标题拆分，否则按空行分段
+ */
+function splitSections(content: string): string[] {
+  const byHeading = content.split(/\n(?=#{1,6}\s)/).filter(section => section.trim());
+  if (byHeading.length > 1) return byHeading;
+  return content.split(/\n\s*\n/).filter(section => section.trim());
+}
+
+/**
+ * 在句子边界处截断文本，使其不超过 maxTokens（只在单个章节也放不下份额时使用）
+ */
+function truncateAtSentence(text: string, maxTokens: number): string {
+  let end = text.length;
+  while (end > 0 && estimateTextTokens(text.substring(0, end)) > maxTokens) {
+    end = Math.floor(end * 0.9);
+  }
+  const head = text.substring(0, end);
+  const lastBoundary = Math.max(head.lastIndexOf('。'), head.lastIndexOf('！'), head.lastIndexOf('？'), head.lastIndexOf('. '), head.lastIndexOf('\n'));
+  return lastBoundary > 0 ? head.substring(0, lastBoundary + 1) : head;
+}
+
+/**
+ * 按“注水”方式在各文档间分配 token：每轮把剩余预算平均分给还没放满的文档，较短文档用不完的份额留给其他文档
+ * @param sizes 各文档的 token 数
+ * @returns 各文档分到的 token 数
+ */
+function allocateShares(sizes: number[], budget: number): number[] {
+  const shares = sizes.map(() => 0);
+  let remaining = Math.max(0, budget);
+  let open = sizes.map((_, index) => index);
+  while (open.length > 0) {
+    const share = Math.floor(remaining / open.length);
+    if (share === 0) break;
+    const stillOpen: number[] = [];
+    for (const index of open) {
+      const grant = Math.min(share, sizes[index] - shares[index]);
+      shares[index] += grant;
+      remaining -= grant;
+      if (shares[index] < sizes[index]) stillOpen.push(index);
+    }
+    // 没有文档放满时剩余预算不足以再分一轮
+    if (stillOpen.length === open.length) break;
+    open = stillOpen;
+  }
+  return shares;
+}
+
+/**
+ * 在份额内节选文档：按顺序放入能放下的完整章节，一个章节都放不下时在句子边界截断
+ */
+function excerptDocument(content: string, share: number): string {
+  const sections: string[] = [];
+  let used = 0;
+  for (const section of splitSections(content)) {
+    const tokens = estimateTextTokens(section) + 1;
+    if (used + tokens > share) continue;
+    sections.push(section);
+    used += tokens;
+  }
+  return sections.length > 0 ? sections.join('\n\n') : truncateAtSentence(content, share);
+}
+
+/**
+ * 在 token 预算内打包综合任务的上下文。
+ * 所有文档都能完整放下时放入完整文档；否则把预算分给各个文档，放不下完整内容的文档在各自的份额内节选完整章节，
+ * 不在句子中间截断，保证选中的多个文档都能进入上下文。预算不足以让每个文档都分到 MIN_DOCUMENT_SHARE_TOKENS 时，
+ * 只保留排在前面的文档，但至少保留两个。
+ * 不同任务使用不同的起始文档，使综合问题覆盖不同的文档组合。
+ * @param startIndex 起始文档序号，超出范围时取模
+ */
+export function packComprehensiveContext(documents: KnowledgeItem[], tokenBudget: number, startIndex = 0): PackedContext {
+  const ordered = documents.map((_, offset) => documents[(startIndex + offset) % documents.length]);
+  const separatorTokens = estimateTextTokens(DOCUMENT_SEPARATOR);
+  const sizes = ordered.map(document => estimateTextTokens(document.content));
+  const overheads = ordered.map((document, index) => estimateTextTokens(`文件名: ${document.source}（节选）\n`) + (index > 0 ? separatorTokens : 0));
+
+  let count = ordered.length;
+  let shares: number[] = [];
+  while (count > 0) {
+    const overhead = overheads.slice(0, count).reduce((sum, tokens) => sum + tokens, 0);
+    shares = allocateShares(sizes.slice(0, count), tokenBudget - overhead);
+    const starved = shares.some((share, index) => share < Math.min(sizes[index], MIN_DOCUMENT_SHARE_TOKENS));
+    if (!starved || count <= 2) break;
+    count--;
+  }
+
+  const parts: string[] = [];
+  const sources: string[] = [];
+  let used = 0;
+  for (let index = 0; index < count; index++) {
+    const document = ordered[index];
+    const complete = shares[index] >= sizes[index];
+    const content = complete ? document.content : excerptDocument(document.content, shares[index]);
+    if (!content.trim()) continue;
+    const header = complete ? `文件名: ${document.source}\n` : `文件名: ${document.source}（节选）\n`;
+    parts.push(header + content);
+    sources.push(document.source);
+    used += estimateTextTokens(header) + estimateTextTokens(content) + (parts.length > 1 ? separatorTokens : 0);
+  }
+
+  return { text: parts.join(DOCUMENT_SEPARATOR), sources, tokens: used };
+}
+
+/**
+ * 打包综合任务或无法回答任务一次调用的上下文：从起始文档出发选取相关文档，在按模型上下文窗口计算的预算内打包。
+ * 运行和运行前的预估共用，保证预估的上下文与实际运行一致
+ * @param relatednessIndex 文档相关度索引，文档不超过一个时为空，此时使用全部文档
+ * @param startIndex 起始文档序号
+ * @param models 工作模型及备用模型
+ * @param reservedTokens 系统提示词、附加指令等其他输入的估算 token 数
+ * @param maxOutputTokens 预留的输出 token 数
+ */
+export function packTaskContext(
+  documents: KnowledgeItem[],
+  relatednessIndex: DocumentRelatednessIndex | undefined,
+  startIndex: number,
+  models: string[],
+  reservedTokens: number,
+  maxOutputTokens: number
+): { packed: PackedContext; selectedDocuments: KnowledgeItem[]; tokenBudget: number } {
+  const tokenBudget = computeContextTokenBudget(models, reservedTokens, maxOutputTokens);
+  const selectedDocuments = relatednessIndex ? relatednessIndex.selectRelated(startIndex) : documents;
+  return { packed: packComprehensiveContext(selectedDocuments, tokenBudget), selectedDocuments, tokenBudget };
+}
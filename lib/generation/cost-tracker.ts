@@ -0,0 +1,145 @@
+// lib/generation/cost-tracker.ts
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { TokenUsage } from '@/lib/llm/types';
+import { PricingTable, computeCost, findModelPrice } from '@/lib/llm/model-pricing';
+import { GenerationTaskType } from './task-plan';
+
+export const COST_FILE_NAME = 'cost.json';
+
+export function emptyTokenUsage(): TokenUsage {
+  return { prompt_tokens: 0, completion_tokens: 0, reasoning_tokens: 0, cachedInput_tokens: 0, total_tokens: 0 };
+}
+
+/**
+ * 将 usage 累加到 target 上
+ */
+export function addTokenUsage(target: TokenUsage, usage: Partial<TokenUsage> | undefined): TokenUsage {
+  target.prompt_tokens += usage?.prompt_tokens || 0;
+  target.completion_tokens += usage?.completion_tokens || 0;
+  target.reasoning_tokens += usage?.reasoning_tokens || 0;
+  target.cachedInput_tokens += usage?.cachedInput_tokens || 0;
+  target.total_tokens += usage?.total_tokens || 0;
+  return target;
+}
+
+/**
+ * 一组调用的 token 消耗和费用汇总
+ */
+export interface CostBucket {
+  tasks: number;
+  usage: TokenUsage;
+  cost: number;
+}
+
+/**
+ * 单个任务的费用记录，一个任务发生备用模型切换时会用到多个模型
+ */
+export interface TaskCostRecord {
+  task_id: number;
+  category: GenerationTaskType;
+  usage_by_model: Record<string, TokenUsage>;
+  cost: number;
+}
+
+/**
+ * 写入 cost.json 并通过 cost_update 事件推送的运行费用汇总
+ */
+export interface RunCostSummary {
+  currency: string;
+  total: CostBucket;
+  by_category: Partial<Record<GenerationTaskType, CostBucket>>;
+  by_model: Record<string, CostBucket>;
+  unpriced_models: string[]; // 价格表中没有的模型，其消耗不计入费用
+}
+
+function emptyBucket(): CostBucket {
+  return { tasks: 0, usage: emptyTokenUsage(), cost: 0 };
+}
+
+/**
+ * 运行期间的费用统计：按价格表估算每个任务的费用，并按类别和模型汇总
+ */
+export class RunCostTracker {
+  private readonly pricing: PricingTable;
+  private readonly tasks: TaskCostRecord[] = [];
+  private readonly summary: RunCostSummary;
+
+  constructor(pricing: PricingTable) {
+    this.pricing = pricing;
+    this.summary = { currency: pricing.currency, total: emptyBucket(), by_category: {}, by_model: {}, unpriced_models: [] };
+  }
+
+  /**
+   * 记录一个任务的消耗
+   * @param usageByModel 每个模型各自的 token 消耗
+   * @returns 该任务的估算费用
+   */
+  recordTask(taskId: number, category: GenerationTaskType, usageByModel: Record<string, TokenUsage>): number {
+    const categoryBucket = this.summary.by_category[category] ||= emptyBucket();
+    let taskCost = 0;
+
+    for (const [model, usage] of Object.entries(usageByModel)) {
+      const price = findModelPrice(this.pricing, model);
+      const cost = price ? computeCost(usage, price, model) : 0;
+      if (!price && usage.total_tokens > 0 && !this.summary.unpriced_models.includes(model)) {
+        this.summary.unpriced_models.push(model);
+      }
+      const modelBucket = this.summary.by_model[model] ||= emptyBucket();
+      modelBucket.tasks++;
+      addTokenUsage(modelBucket.usage, usage);
+      modelBucket.cost += cost;
+      addTokenUsage(categoryBucket.usage, usage);
+      addTokenUsage(this.summary.total.usage, usage);
+      taskCost += cost;
+    }
+
+    categoryBucket.tasks++;
+    categoryBucket.cost += taskCost;
+    this.summary.total.tasks++;
+    this.summary.total.cost += taskCost;
+    this.tasks.push({ task_id: taskId, category, usage_by_model: usageByModel, cost: taskCost });
+    return taskCost;
+  }
+
+  /**
+   * 继续运行时，从运行目录下的 cost.json 恢复已完成任务的消耗
+   * @param taskIds 已完成的任务编号，cost.json 中其他任务的结果未保存，会重新执行
+   */
+  async restore(runDir: string, taskIds: Set<number>) {
+    let records: TaskCostRecord[] = [];
+    try {
+      records = JSON.parse(await readFile(join(runDir, COST_FILE_NAME), 'utf-8')).tasks || [];
+    } catch (error) {
+      return;
+    }
+    for (const record of records) {
+      if (taskIds.has(record.task_id)) this.recordTask(record.task_id, record.category, record.usage_by_model);
+    }
+  }
+
+  /**
+   * 价格表中是否有该模型的价格
+   */
+  hasPrice(model: string): boolean {
+    return !!findModelPrice(this.pricing, model);
+  }
+
+  getSummary(): RunCostSummary {
+    return this.summary;
+  }
+
+  /**
+   * 将汇总和逐任务明细写入运行目录下的 cost.json
+   */
+  async save(runDir: string) {
+    await writeFile(join(runDir, COST_FILE_NAME), JSON.stringify({ ...this.summary, tasks: this.tasks }, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * 按币种格式化费用，用于日志和界面显示
+ */
+export function formatCost(cost: number, currency: string): string {
+  return `${currency} ${cost.toFixed(4)}`;
+}
@@ -0,0 +1,99 @@
+// lib/generation/document-selector.ts
+import { KnowledgeItem } from './knowledge-loader';
+
+// 综合任务默认最多选取的文档数，可通过 COMPREHENSIVE_MAX_DOCUMENTS 调整（至少 2 个）
+const DEFAULT_MAX_DOCUMENTS = 4;
+// 同一 #type: 标签的文档额外加分
+const SAME_TAG_BONUS = 0.2;
+// 每个文档只保留权重最高的这么多个词，控制计算量
+const MAX_TERMS_PER_DOCUMENT = 300;
+
+const CJK_RUN_REGEX = /[\u3400-\u4dbf\u4e00-\u9fff]+/g;
+const WORD_REGEX = /[a-z][a-z0-9_-]{2,}/g;
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'are', 'was', 'from', 'not', 'but', 'have', 'has', 'you', 'your', 'can', 'will', 'all', 'any']);
+
+/**
+ * 提取文本中的词项：英文按单词，中文按相邻两字（二元组）切分，不依赖分词器
+ */
+function extractTerms(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (term: string) => counts.set(term, (counts.get(term) || 0) + 1);
+  for (const word of text.toLowerCase().match(WORD_REGEX) || []) {
+    if (!STOP_WORDS.has(word)) add(word);
+  }
+  for (const run of text.match(CJK_RUN_REGEX) || []) {
+    for (let i = 0; i < run.length - 1; i++) add(run.substring(i, i + 2));
+  }
+  return counts;
+}
+
+/**
+ * 按 TF-IDF 向量余弦相似度和 #type: 标签衡量文档之间的相关度，为综合任务挑选相互关联的多个文档
+ */
+export class DocumentRelatednessIndex {
+  private readonly documents: KnowledgeItem[];
+  private readonly similarity: number[][];
+
+  constructor(documents: KnowledgeItem[]) {
+    this.documents = documents;
+    const termCounts = documents.map(document => extractTerms(document.content));
+
+    // 文档频率，只出现在一个文档中的词对相关度没有贡献
+    const documentFrequency = new Map<string, number>();
+    for (const counts of termCounts) {
+      for (const term of counts.keys()) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+
+    const vectors = termCounts.map(counts => {
+      const weighted: [string, number][] = [];
+      for (const [term, count] of counts) {
+        const df = documentFrequency.get(term) || 0;
+        if (df < 2 || df === documents.length) continue; // 只在一篇或每篇都出现的词无法区分相关度
+        weighted.push([term, (1 + Math.log(count)) * Math.log(documents.length / df)]);
+      }
+      weighted.sort((a, b) => b[1] - a[1]);
+      const vector = new Map(weighted.slice(0, MAX_TERMS_PER_DOCUMENT));
+      const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, w) => sum + w * w, 0)) || 1;
+      for (const [term, weight] of vector) vector.set(term, weight / norm);
+      return vector;
+    });
+
+    this.similarity = documents.map((a, i) => documents.map((b, j) => {
+      if (i === j) return 1;
+      let dot = 0;
+      for (const [term, weight] of vectors[i]) dot += weight * (vectors[j].get(term) || 0);
+      return dot + (a.tag !== 'untagged' && a.tag === b.tag ? SAME_TAG_BONUS : 0);
+    }));
+  }
+
+  /**
+   * 从 seedIndex 指定的文档出发，依次加入与已选文档平均相关度最高的文档
+   * @param maxDocuments 最多选取的文档数，默认读取 COMPREHENSIVE_MAX_DOCUMENTS
+   * @returns 按选取顺序排列的文档
+   */
+  selectRelated(seedIndex: number, maxDocuments = getMaxComprehensiveDocuments()): KnowledgeItem[] {
+    if (this.documents.length === 0) return [];
+    const selected = [seedIndex % this.documents.length];
+    const limit = Math.min(Math.max(2, maxDocuments), this.documents.length);
+
+    while (selected.length < limit) {
+      let best = -1;
+      let bestScore = -Infinity;
+      for (let candidate = 0; candidate < this.documents.length; candidate++) {
+        if (selected.includes(candidate)) continue;
+        const score = selected.reduce((sum, index) => sum + this.similarity[index][candidate], 0) / selected.length;
+        if (score > bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+      selected.push(best);
+    }
+    return selected.map(index => this.documents[index]);
+  }
+}
+
+export function getMaxComprehensiveDocuments(): number {
+  const value = Number(process.env.COMPREHENSIVE_MAX_DOCUMENTS);
+  return Number.isFinite(value) && value >= 2 ? Math.floor(value) : DEFAULT_MAX_DOCUMENTS;
+}
@@ -0,0 +1,418 @@
+// lib/generation/job-manager.ts
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { resolveModelChain } from '@/lib/llm/model-chain';
+import { RunCostSummary } from './cost-tracker';
+import { RunManifestStatus, buildRunConfigFromManifest, readRunManifest } from './run-manifest';
+import { RESULT_DIR, RUN_CANCELLED_MESSAGE, createRunId, executeRun, executeVerification, getResumeRunId, getVerifyRunId } from './run-executor';
+
+// 运行任务状态的保存目录，每个任务一个 <id>.json
+export const JOBS_DIR = join(process.cwd(), 'output', 'jobs');
+
+// 进度频繁更新时，任务状态最多每隔这么久写一次磁盘
+const JOB_PERSIST_INTERVAL_MS = 1000;
+// 同时执行的运行数默认为 1（依次执行），可通过 RUN_QUEUE_CONCURRENCY 调整，运行页面的队列面板也可以修改
+const DEFAULT_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 8;
+// 内存中保留（任务列表中显示）的已结束任务数，更早的任务写入磁盘后移出内存，仍可从 output/jobs 查询
+const MAX_FINISHED_JOBS_KEPT = 20;
+
+export type JobStatus = RunManifestStatus | 'queued';
+
+/**
+ * 任务的运行配置摘要，在队列面板中查看
+ */
+export interface JobConfigSummary {
+  work_model: string;
+  fallback_models: string[];
+  test_config: Record<string, unknown>; // 生成数量、每次调用题数、预算等设置
+}
+
+/**
+ * 运行任务的状态，运行页面重新连接时据此恢复进度显示
+ */
+export interface JobState {
+  id: string;
+  run_id: string;           // 对应的运行目录名
+  resume: boolean;          // 是否为继续未完成的运行
+  verify: boolean;          // 是否为对已有运行结果的答案校验
+  status: JobStatus;
+  config_summary: JobConfigSummary;
+  created_at: string;
+  updated_at: string;
+  started_at?: string;
+  finished_at?: string;
+  message: string;          // 当前的进度说明，结束后为结束消息
+  progress: number;         // 0-100
+  current_task: number;
+  total_tasks: number;
+  token_usage: number;      // 累计 token 消耗
+  seed?: number;
+  cost?: RunCostSummary;
+  cache_stats?: { hits: number; misses: number };
+  current_run_state?: Record<string, unknown>; // 运行页面“当前问题”区域显示的内容
+}
+
+/**
+ * 推送给运行页面的事件，格式与 SSE 消息一致
+ */
+export interface JobEvent {
+  type: string;
+  [key: string]: any;
+}
+
+type JobListener = (event: JobEvent) => void;
+
+interface ActiveJob {
+  state: JobState;
+  config: any;
+  cancelled: boolean;
+  listeners: Set<JobListener>;
+  persistTimer?: ReturnType<typeof setTimeout>;
+  pendingWrite: Promise<void>; // 串行写入，避免并发写同一文件
+}
+
+// 各结束状态对应的 SSE 结束事件
+const TERMINAL_EVENT_TYPES: Partial<Record<JobStatus, string>> = {
+  completed: 'done',
+  budget_exhausted: 'budget_exhausted',
+  cancelled: 'cancelled',
+  failed: 'error',
+};
+
+export function isJobFinished(state: JobState): boolean {
+  return state.status !== 'running' && state.status !== 'queued';
+}
+
+/**
+ * 已结束任务的结束事件，未结束时返回 undefined
+ */
+export function getTerminalEvent(state: JobState): JobEvent | undefined {
+  const type = TERMINAL_EVENT_TYPES[state.status];
+  return type ? { type, message: state.message } : undefined;
+}
+
+function getDefaultConcurrency(): number {
+  const value = Number(process.env.RUN_QUEUE_CONCURRENCY);
+  return Number.isInteger(value) && value >= 1 ? Math.min(value, MAX_CONCURRENCY) : DEFAULT_CONCURRENCY;
+}
+
+/**
+ * 服务端运行任务管理：运行与发起请求的 HTTP 连接解耦，页面可以随时断开并重新连接查看进度。
+ * 新任务先进入队列，按顺序执行，同时执行的数量不超过并发上限。
+ * 任务状态保存在 output/jobs 下，服务重启后仍可查询；重启前未结束的任务视为中断，可在运行页面继续对应的运行。
+ */
+export class JobManager {
+  private readonly jobs = new Map<string, ActiveJob>();
+  private readonly queue: string[] = []; // 排队中的任务 id，按执行顺序排列
+  private concurrency = getDefaultConcurrency();
+
+  /**
+   * 创建运行任务并加入队列，有空闲的执行位置时立即开始
+   * @param config 运行页面提交的配置，带 resumeRunId 时继续该运行，带 verifyRunId 时校验该运行的结果
+   */
+  async createJob(config: any): Promise<JobState> {
+    const verifyRunId = getVerifyRunId(config);
+    const resumeRunId = verifyRunId ? undefined : getResumeRunId(config);
+    const existingRunId = verifyRunId || resumeRunId;
+    // 先完成可能出错的准备工作，之后登记和入队不再有异步步骤，出错时不会留下已排队的任务
+    const configSummary = await summarizeConfig(config, existingRunId);
+    await mkdir(JOBS_DIR, { recursive: true });
+
+    const runId = existingRunId || createRunId(id => Array.from(this.jobs.values()).some(job => job.state.run_id === id));
+    if (this.isRunActive(runId)) {
+      throw new Error(`运行 ${runId} 正在执行或排队中。`);
+    }
+
+    const now = new Date().toISOString();
+    const job: ActiveJob = {
+      state: {
+        id: randomUUID(),
+        run_id: runId,
+        resume: !!resumeRunId,
+        verify: !!verifyRunId,
+        status: 'queued',
+        config_summary: configSummary,
+        created_at: now,
+        updated_at: now,
+        message: '排队中...',
+        progress: 0,
+        current_task: 0,
+        total_tasks: 0,
+        token_usage: 0,
+      },
+      config,
+      cancelled: false,
+      listeners: new Set(),
+      pendingWrite: Promise.resolve(),
+    };
+    this.jobs.set(job.state.id, job);
+    this.queue.push(job.state.id);
+    this.persist(job, true);
+
+    this.startQueuedJobs();
+    return { ...job.state };
+  }
+
+  /**
+   * 当前和排队中的任务，以及最近结束的任务。排队中的任务按执行顺序排列
+   */
+  listJobs(): JobState[] {
+    const jobs = Array.from(this.jobs.values()).map(job => job.state);
+    const running = jobs.filter(state => state.status === 'running');
+    const queued = this.queue.map(id => this.jobs.get(id)!.state);
+    const finished = jobs
+      .filter(isJobFinished)
+      .sort((a, b) => (b.finished_at || '').localeCompare(a.finished_at || ''))
+      .slice(0, MAX_FINISHED_JOBS_KEPT);
+    return [...running, ...queued, ...finished].map(state => ({ ...state }));
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * 修改同时执行的运行数上限，调大时立即开始排队中的任务；调小时不影响已在执行的任务
+   */
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.min(Math.max(1, Math.floor(concurrency)), MAX_CONCURRENCY);
+    this.startQueuedJobs();
+  }
+
+  /**
+   * 调整排队中任务的执行顺序
+   * @param position 在队列中的新位置，从 0 开始
+   * @returns 任务不在队列中时返回 false
+   */
+  moveJob(id: string, position: number): boolean {
+    const index = this.queue.indexOf(id);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    this.queue.splice(Math.min(Math.max(0, Math.floor(position)), this.queue.length), 0, id);
+    return true;
+  }
+
+  /**
+   * 查询任务状态，当前进程中没有时从磁盘读取
+   */
+  async getJob(id: string): Promise<JobState | undefined> {
+    const active = this.jobs.get(id);
+    if (active) return { ...active.state };
+
+    let state: JobState;
+    try {
+      state = JSON.parse(await readFile(join(JOBS_DIR, `${sanitizeJobId(id)}.json`), 'utf-8'));
+    } catch (error) {
+      return undefined;
+    }
+    if (!isJobFinished(state)) {
+      // 不在当前进程中却未结束，说明服务在运行期间重启过
+      const message = state.status === 'queued' ? '服务已重启，排队中的运行未执行。' : '服务已重启，运行被中断。可在运行页面继续该运行。';
+      state = { ...state, status: 'failed', message, updated_at: new Date().toISOString(), finished_at: new Date().toISOString() };
+      await writeFile(join(JOBS_DIR, `${state.id}.json`), JSON.stringify(state, null, 2), 'utf-8');
+    }
+    return state;
+  }
+
+  /**
+   * 订阅正在执行的任务的进度事件。订阅时先推送一次当前状态（snapshot 事件），任务结束后推送结束事件
+   * @returns 取消订阅的函数；任务不在执行中时返回 undefined
+   */
+  subscribe(id: string, listener: JobListener): (() => void) | undefined {
+    const job = this.jobs.get(id);
+    if (!job || isJobFinished(job.state)) return undefined;
+    listener({ type: 'snapshot', job: { ...job.state } });
+    job.listeners.add(listener);
+    return () => job.listeners.delete(listener);
+  }
+
+  /**
+   * 取消任务：排队中的任务直接移出队列，正在执行的任务在当前模型调用结束后停止
+   * @returns 任务不存在或已结束时返回 false
+   */
+  cancelJob(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || isJobFinished(job.state)) return false;
+    job.cancelled = true;
+    if (job.state.status === 'queued') {
+      this.queue.splice(this.queue.indexOf(id), 1);
+      this.finishJob(job, { status: 'cancelled', message: '已从队列中移除，该运行未执行。' });
+      return true;
+    }
+    this.updateState(job, { message: '正在停止运行...' });
+    this.emit(job, { type: 'update', payload: { activeTaskMessage: job.state.message } });
+    return true;
+  }
+
+  /**
+   * 该运行目录是否正有任务在执行
+   */
+  isRunActive(runId: string): boolean {
+    return Array.from(this.jobs.values()).some(job => job.state.run_id === runId && !isJobFinished(job.state));
+  }
+
+  /**
+   * 在并发上限内按队列顺序开始排队中的任务
+   */
+  private startQueuedJobs() {
+    let running = Array.from(this.jobs.values()).filter(job => job.state.status === 'running').length;
+    while (running < this.concurrency && this.queue.length > 0) {
+      const job = this.jobs.get(this.queue.shift()!)!;
+      running++;
+      this.updateState(job, { status: 'running', started_at: new Date().toISOString(), message: job.state.verify ? '正在读取运行结果...' : '正在分析知识库文件并计算任务...' });
+      this.persist(job, true);
+      this.emit(job, { type: 'snapshot', job: { ...job.state } });
+      // 不等待运行结束，进度通过 subscribe 获取
+      void this.run(job);
+    }
+  }
+
+  private async run(job: ActiveJob) {
+    try {
+      const execute = job.state.verify ? executeVerification : executeRun;
+      const outcome = await execute(job.config, job.state.run_id, (event) => {
+        // 取消后中断任务执行，与原先客户端断开连接时的处理一致
+        if (job.cancelled) {
+          throw new Error(RUN_CANCELLED_MESSAGE);
+        }
+        this.handleEvent(job, event as JobEvent);
+      }, () => job.cancelled);
+
+      if (outcome.status === 'completed') {
+        this.updateState(job, { progress: 100, current_task: job.state.total_tasks });
+      }
+      this.finishJob(job, outcome);
+    } catch (error: any) {
+      // 运行器意外出错时同样结束任务，否则任务会一直处于执行中并占用执行位置
+      console.error(`[Job ${job.state.id}] run failed:`, error);
+      if (!isJobFinished(job.state)) {
+        this.finishJob(job, { status: 'failed', message: `运行出错: ${error?.message || error}` });
+      }
+    } finally {
+      this.startQueuedJobs();
+    }
+  }
+
+  private finishJob(job: ActiveJob, outcome: { status: JobStatus; message: string }) {
+    this.updateState(job, { status: outcome.status, message: outcome.message, finished_at: new Date().toISOString() });
+    this.persist(job, true);
+    const terminalEvent = getTerminalEvent(job.state);
+    if (terminalEvent) this.emit(job, terminalEvent);
+    job.listeners.clear();
+    this.evictFinishedJobs();
+  }
+
+  /**
+   * 已结束任务超过保留数量时，最早结束的任务在最终状态写入磁盘后移出内存，之后由 getJob 从磁盘读取
+   */
+  private evictFinishedJobs() {
+    const finished = Array.from(this.jobs.values())
+      .filter(job => isJobFinished(job.state))
+      .sort((a, b) => (b.state.finished_at || '').localeCompare(a.state.finished_at || ''));
+    for (const job of finished.slice(MAX_FINISHED_JOBS_KEPT)) {
+      job.pendingWrite.then(() => {
+        if (this.jobs.get(job.state.id) === job) this.jobs.delete(job.state.id);
+      });
+    }
+  }
+
+  /**
+   * 根据进度事件更新任务状态，再转发给订阅者
+   */
+  private handleEvent(job: ActiveJob, event: JobEvent) {
+    switch (event.type) {
+      case 'log':
+        console.log(`[Job ${job.state.id}]`, event.message);
+        break;
+      case 'update':
+        this.updateState(job, {
+          ...(event.payload.activeTaskMessage !== undefined && { message: event.payload.activeTaskMessage }),
+          ...(event.payload.progress !== undefined && { progress: event.payload.progress }),
+          ...(event.payload.currentTask !== undefined && { current_task: event.payload.currentTask }),
+          ...(event.payload.totalTasks !== undefined && { total_tasks: event.payload.totalTasks }),
+        });
+        break;
+      case 'state_update':
+        this.updateState(job, { current_run_state: { ...job.state.current_run_state, ...event.payload } });
+        break;
+      case 'token_usage':
+        this.updateState(job, { token_usage: event.tokenUsage });
+        break;
+      case 'seed':
+        this.updateState(job, { seed: event.seed });
+        break;
+      case 'cost_update':
+        this.updateState(job, { cost: event.cost });
+        break;
+      case 'cache_stats':
+        this.updateState(job, { cache_stats: { hits: event.hits, misses: event.misses } });
+        break;
+    }
+    if (event.type !== 'log') this.persist(job);
+    this.emit(job, event);
+  }
+
+  private updateState(job: ActiveJob, changes: Partial<JobState>) {
+    job.state = { ...job.state, ...changes, updated_at: new Date().toISOString() };
+  }
+
+  private emit(job: ActiveJob, event: JobEvent) {
+    for (const listener of job.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[Job ${job.state.id}] listener failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * 保存任务状态。进度更新时按间隔合并写入，开始和结束时立即写入
+   */
+  private persist(job: ActiveJob, immediate = false) {
+    if (job.persistTimer) {
+      if (!immediate) return;
+      clearTimeout(job.persistTimer);
+      job.persistTimer = undefined;
+    }
+    if (!immediate) {
+      job.persistTimer = setTimeout(() => {
+        job.persistTimer = undefined;
+        this.persist(job, true);
+      }, JOB_PERSIST_INTERVAL_MS);
+      return;
+    }
+    job.pendingWrite = job.pendingWrite
+      .then(() => writeFile(join(JOBS_DIR, `${job.state.id}.json`), JSON.stringify(job.state, null, 2), 'utf-8'))
+      .catch(error => console.error(`[Job ${job.state.id}] failed to save state:`, error));
+  }
+}
+
+/**
+ * 生成任务的配置摘要。继续运行和校验的请求只带预算、校验模型等设置，模型和生成数量从原运行的 manifest 读取
+ * @param existingRunId 继续运行或校验的运行目录名
+ */
+async function summarizeConfig(config: any, existingRunId?: string): Promise<JobConfigSummary> {
+  let source = config;
+  if (existingRunId) {
+    const manifest = await readRunManifest(join(RESULT_DIR, existingRunId));
+    if (manifest) source = buildRunConfigFromManifest(manifest, config.testConfig);
+  }
+  const [workModel = '', ...fallbackModels] = resolveModelChain(source.project?.workModel, source.project?.workModelFallbacks);
+  const testConfig = getVerifyRunId(config) ? { ...source.testConfig, verifierModel: config.testConfig?.verifierModel } : source.testConfig;
+  return { work_model: workModel, fallback_models: fallbackModels, test_config: testConfig || {} };
+}
+
+// 任务 id 来自 URL，只允许 UUID 中的字符，避免读取 output/jobs 以外的文件
+function sanitizeJobId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9-]/g, '');
+}
+
+// 开发模式下路由模块会被热重载，单例挂在 globalThis 上，保证所有路由共用同一个任务管理器
+const globalForJobs = globalThis as unknown as { jobManager?: JobManager };
+
+export function getJobManager(): JobManager {
+  return globalForJobs.jobManager ||= new JobManager();
+}
@@ -0,0 +1,135 @@
+// lib/generation/knowledge-loader.ts
+import { readFile, writeFile, readdir } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * 知识库中的一项内容（QA 对、文本块或完整文档）
+ */
+export interface KnowledgeItem {
+  tag: string;
+  source: string; // 来源文件名
+  content: string;
+}
+
+export interface KnowledgeContent {
+  qaPairs: KnowledgeItem[];
+  chunks: KnowledgeItem[];
+  documents: KnowledgeItem[];
+  comprehensiveTag: string;
+  unanswerableTag: string; // 无法回答问题的标签，与综合标签使用相同的前缀
+}
+
+/**
+ * 知识库文件所在目录
+ */
+export function getKnowledgeDir(): string {
+  return join(process.cwd(), "output", "project", "knowledge");
+}
+
+/**
+ * 加载并缓存所有知识库内容
+ */
+export async function classifyAndCacheKnowledgeContent(onProgress: (data: object) => void): Promise<KnowledgeContent> {
+  const knowledgeDir = getKnowledgeDir();
+  onProgress({ type: 'log', message: `开始扫描知识库目录: ${knowledgeDir}` });
+
+  // 定义缓存数组
+  const qaPairs: KnowledgeItem[] = [];
+  const chunks: KnowledgeItem[] = [];
+  const documents: KnowledgeItem[] = [];
+  const allTags = new Set<string>(); // 收集所有Tag标签
+
+  try {
+    const knowledgeFiles = await readdir(knowledgeDir);
+    onProgress({ type: 'log', message: `发现 ${knowledgeFiles.length} 个文件，正在进行智能分类...` });
+
+    // 正则表达式，用于精确识别 Q&A 格式
+    const qaRegex = /(^Q:.*\s*\n^A:.*)/gm;
+
+    for (const fileName of knowledgeFiles) {
+      let content = await readFile(join(knowledgeDir, fileName), 'utf-8');
+      const firstLine = content.split('\n', 1)[0];
+      let tag = 'untagged'; // 默认值
+      if (firstLine.startsWith('#type:')) {
+        tag = firstLine.substring('#type:'.length).trim();
+
+        const firstNewLineIndex = content.indexOf('\n');
+        if (firstNewLineIndex !== -1) {
+          content = content.substring(firstNewLineIndex + 1);
+        }
+      }
+      allTags.add(tag); // 添加到Set中，自动去重
+
+      const matches = content.match(qaRegex);
+      // 规则: 超过3个Q&A对，则判定为QA文件
+      if (matches && matches.length > 3) {
+        onProgress({ type: 'log', message: `文件 "${fileName}" 被分类为 [QA类型]` });
+        // 按空行分割，并过滤掉无效的空块
+        const pairs = content.split(/\n\s*\n/).filter(p => p.trim());
+        pairs.forEach(pairContent => {
+          qaPairs.push({ tag, source: fileName, content: pairContent });
+        });
+      } else {
+        onProgress({ type: 'log', message: `文件 "${fileName}" 被分类为 [文档类型]` });
+        // 1. 缓存完整文档内容
+        documents.push({ tag, source: fileName, content: content });
+        // 2. 缓存按空行分割的文本块
+        const contentChunks = content.split(/\n\s*\n/).filter(c => c.trim());
+        contentChunks.forEach(chunkContent => {
+          chunks.push({ tag, source: fileName, content: chunkContent });
+        });
+      }
+    }
+  } catch (e: any) {
+    // 如果目录不存在，这是一个严重错误，因为无法进行任何操作
+    throw new Error(`无法读取知识库目录: ${knowledgeDir}。请确认文件已上传。错误: ${e.message}`);
+  }
+
+  const documentTags = documents.map(doc => doc.tag);
+  const commonPrefix = findLongestCommonPrefix(documentTags);
+  const comprehensiveTag = commonPrefix ? `${commonPrefix}Comprehensive` : 'Comprehensive';
+  // 只有在有综合问题并且有文档时才添加这个tag
+  if (comprehensiveTag && documents.length > 0) {
+      allTags.add(comprehensiveTag);
+  }
+  console.log(`[INFO] 动态生成的 Comprehensive Tag 为: ${comprehensiveTag}`);
+  const unanswerableTag = commonPrefix ? `${commonPrefix}Unanswerable` : 'Unanswerable';
+  if (documents.length > 0) {
+      allTags.add(unanswerableTag);
+  }
+  // 将所有唯一的Tag写入一个全局可访问的文件
+  try {
+    const tagsFilePath = join(process.cwd(), "output", "project", "tags.json");
+    await writeFile(tagsFilePath, JSON.stringify(Array.from(allTags), null, 2), 'utf-8');
+    onProgress({ type: 'log', message: `已将 ${allTags.size} 个TAG标签写入到 tags.json` });
+  } catch (e: any) {
+    onProgress({ type: 'log', message: `警告: 写入 tags.json 文件失败。错误: ${e.message}` });
+  }
+
+  onProgress({ type: 'log', message: `内容缓存完成: QA对(${qaPairs.length}), 文本块(${chunks.length}), 文档(${documents.length})` });
+
+  return { qaPairs, chunks, documents, comprehensiveTag, unanswerableTag };
+}
+
+/**
+ * 查找一组字符串的最长公共前缀
+ * @param strs 字符串数组 (例如: ['local-spark-qa', 'local-spark-building'])
+ * @returns 最长公共前缀 (例如: 'local-spark-')
+ */
+function findLongestCommonPrefix(strs: string[]): string {
+  if (!strs || strs.length === 0) {
+    return "";
+  }
+  // 以第一个字符串作为基准
+  let prefix = strs[0];
+  for (let i = 1; i < strs.length; i++) {
+    // 不断缩短基准字符串，直到它成为当前字符串的前缀
+    while (strs[i].indexOf(prefix) !== 0) {
+      prefix = prefix.substring(0, prefix.length - 1);
+      if (prefix === "") {
+        return "";
+      }
+    }
+  }
+  return prefix;
+}
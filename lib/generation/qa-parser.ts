@@ -0,0 +1,180 @@
+// lib/generation/qa-parser.ts
+import { DIFFICULTIES, QUESTION_TYPES, normalizeDifficulty, normalizeQuestionType } from './question-classifier';
+
+/**
+ * 单个生成的问答对
+ */
+export interface GeneratedQA {
+  question: string;
+  answer: string;
+  keyPoints?: string[]; // 答案要点
+  difficulty?: string;  // 难度：easy / medium / hard
+  questionType?: string; // 问题类型，取值见 QUESTION_TYPES
+  evidence?: string;    // 支撑答案的原文引用
+}
+
+/**
+ * 结构化输出模式下约束模型回复的 JSON Schema
+ */
+export const QA_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    question: { type: 'string', description: '基于给定内容生成的问题' },
+    answer: { type: 'string', description: '问题的标准答案，可以包含多行' },
+    key_points: {
+      type: 'array',
+      items: { type: 'string' },
+      description: '答案中必须覆盖的要点',
+    },
+    difficulty: {
+      type: 'string',
+      enum: [...DIFFICULTIES],
+      description: '问题难度',
+    },
+    question_type: {
+      type: 'string',
+      enum: [...QUESTION_TYPES],
+      description: '问题类型：factoid 单个事实、list 列举、comparison 比较、procedural 步骤方法、numeric 数值计算、multi_hop 多跳推理、yes_no 是非',
+    },
+    evidence: { type: 'string', description: '从给定内容中逐字摘录的、支撑答案的原文' },
+  },
+  required: ['question', 'answer', 'key_points', 'difficulty', 'question_type', 'evidence'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * 将结构化输出得到的对象转换为问答对
+ * @param object 模型按 QA_JSON_SCHEMA 生成的对象
+ * @returns 缺少问题或答案时返回 null
+ */
+export function parseStructuredQA(object: unknown): GeneratedQA | null {
+  if (!object || typeof object !== 'object') return null;
+  const data = object as Record<string, any>;
+  if (typeof data.question !== 'string' || typeof data.answer !== 'string') return null;
+
+  return {
+    question: data.question.trim(),
+    answer: data.answer.trim(),
+    keyPoints: Array.isArray(data.key_points) ? data.key_points.map(String) : undefined,
+    difficulty: normalizeDifficulty(data.difficulty),
+    questionType: normalizeQuestionType(data.question_type),
+    evidence: typeof data.evidence === 'string' ? data.evidence.trim() : undefined,
+  };
+}
+
+// 匹配 "question:" / "answer:" 标记行，容忍 Markdown 加粗、标题、列表符号和中文冒号
+const QUESTION_LINE_REGEX = /^[\s>#*_\-]*question[*_]*\s*[:：][*_]*\s*(.*)$/i;
+const ANSWER_LINE_REGEX = /^[\s>#*_\-]*answer[*_]*\s*[:：][*_]*\s*(.*)$/i;
+
+/**
+ * 一次调用生成多组问答时使用的 JSON Schema：items 数组中每项都符合 QA_JSON_SCHEMA
+ * @param count 要求生成的问答组数
+ */
+export function buildBatchQASchema(count: number) {
+  return {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        items: QA_JSON_SCHEMA,
+        minItems: count,
+        maxItems: count,
+        description: `${count} 组互不相同的问答`,
+      },
+    },
+    required: ['items'],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * 一次调用生成多组问答时追加在用户消息末尾的指令
+ * @param count 要求生成的问答组数
+ * @param structured 是否为结构化输出模式
+ */
+export function buildBatchInstruction(count: number, structured: boolean): string {
+  return structured
+    ? `\n\n---\n请基于以上内容生成 ${count} 组互不相同的问答，放入 items 数组中返回。`
+    : `\n\n---\n请基于以上内容生成 ${count} 组互不相同的问答。每组使用 "Question: ..." 和 "Answer: ..." 格式，组与组之间空一行。`;
+}
+
+/**
+ * 将结构化输出得到的对象转换为问答对列表，兼容单个对象和 { items: [...] } 两种形式
+ */
+function parseStructuredQAList(object: unknown): GeneratedQA[] {
+  const items = Array.isArray(object)
+    ? object
+    : Array.isArray((object as any)?.items) ? (object as any).items : [object];
+  return items
+    .map((item: unknown) => parseStructuredQA(item))
+    .filter((qa: GeneratedQA | null): qa is GeneratedQA => qa !== null);
+}
+
+/**
+ * 按行解析 "Question: ... / Answer: ..." 格式的模型回复，支持一段回复中包含多组问答
+ * 答案从 answer: 行开始，一直延续到下一个 question: 行或回复结束，以支持多行答案。
+ * @param content 模型回复的原始文本
+ * @returns 所有解析出的问答对；问题和答案都找不到时返回空数组
+ */
+export function parseLineQAList(content: string): GeneratedQA[] {
+  const lines = content.split('\n');
+  const pairs: GeneratedQA[] = [];
+  let question: string | undefined;
+  let answerLines: string[] | undefined;
+
+  const flush = () => {
+    if (question === undefined && answerLines === undefined) return;
+    pairs.push({
+      question: question ?? '',
+      answer: (answerLines ?? []).join('\n').trim(),
+    });
+    question = undefined;
+    answerLines = undefined;
+  };
+
+  for (const line of lines) {
+    const questionMatch = line.match(QUESTION_LINE_REGEX);
+    if (questionMatch) {
+      flush(); // 遇到新的问题，上一组问答结束
+      question = questionMatch[1].trim();
+      continue;
+    }
+    const answerMatch = line.match(ANSWER_LINE_REGEX);
+    if (answerMatch && answerLines === undefined) {
+      answerLines = [answerMatch[1]];
+      continue;
+    }
+    if (answerLines !== undefined) {
+      answerLines.push(line);
+    }
+  }
+  flush();
+
+  return pairs;
+}
+
+/**
+ * 解析模型回复：优先按结构化对象解析，其次尝试回复文本中的 JSON，最后回退到按行解析
+ * @param content 模型回复的原始文本
+ * @param object 结构化输出模式下得到的对象（若有）
+ * @returns 解析出的所有问答对，无法解析时返回空数组
+ */
+export function parseGeneratedQAList(content: string, object?: unknown): GeneratedQA[] {
+  if (object !== undefined) {
+    const structured = parseStructuredQAList(object);
+    if (structured.length > 0) return structured;
+  }
+
+  // 不支持结构化输出的模型有时仍会按提示词返回 JSON（可能包在 ```json 代码块中）
+  const jsonMatch = content.match(/[\[{][\s\S]*[\]}]/);
+  if (jsonMatch) {
+    try {
+      const structured = parseStructuredQAList(JSON.parse(jsonMatch[0]));
+      if (structured.length > 0) return structured;
+    } catch (e) {
+      // 不是合法 JSON，继续按行解析
+    }
+  }
+
+  return parseLineQAList(content);
+}
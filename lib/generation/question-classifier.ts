@@ -0,0 +1,132 @@
+// lib/generation/question-classifier.ts
+import { ChatMessage } from '@/lib/llm/types';
+
+/**
+ * 问题类型：
+ * factoid：询问单个事实；list：要求列举多项；comparison：比较两个或多个对象；
+ * procedural：询问步骤或操作方法；numeric：答案是数值或需要计算；
+ * multi_hop：需要串联多处信息推理；yes_no：答案为是或否
+ */
+export const QUESTION_TYPES = ['factoid', 'list', 'comparison', 'procedural', 'numeric', 'multi_hop', 'yes_no'] as const;
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  factoid: '事实',
+  list: '列举',
+  comparison: '比较',
+  procedural: '步骤',
+  numeric: '数值',
+  multi_hop: '多跳推理',
+  yes_no: '是非',
+};
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type Difficulty = typeof DIFFICULTIES[number];
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: '简单',
+  medium: '中等',
+  hard: '困难',
+};
+
+/**
+ * 结构化输出模式下约束分类模型回复的 JSON Schema
+ */
+export const CLASSIFICATION_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    question_type: { type: 'string', enum: [...QUESTION_TYPES], description: '问题类型' },
+    difficulty: { type: 'string', enum: [...DIFFICULTIES], description: '问题难度' },
+  },
+  required: ['question_type', 'difficulty'],
+  additionalProperties: false,
+} as const;
+
+const CLASSIFIER_SYSTEM_PROMPT = `你是一名测试题标注员。你会收到一道问题和它的标准答案，请标注问题类型和难度。
+
+问题类型 question_type 取值：
+- factoid：询问单个事实
+- list：要求列举多项内容
+- comparison：比较两个或多个对象的异同
+- procedural：询问操作步骤或方法
+- numeric：答案是数值，或需要计算
+- multi_hop：需要串联多处信息推理才能回答
+- yes_no：答案为是或否
+
+难度 difficulty 取值：easy（直接从原文找到答案）、medium（需要理解或归纳）、hard（需要推理、计算或综合多处信息）。
+
+按以下 JSON 格式回复，不要输出其他内容：
+{"question_type": "...", "difficulty": "..."}`;
+
+// 模型常见的其他写法（已将空格、连字符和斜杠替换为下划线）
+const QUESTION_TYPE_ALIASES: Record<string, QuestionType> = {
+  multihop: 'multi_hop',
+  yesno: 'yes_no',
+  boolean: 'yes_no',
+  procedure: 'procedural',
+  fact: 'factoid',
+};
+
+/**
+ * 将模型给出的问题类型规范为 QUESTION_TYPES 中的取值，无法识别时返回 undefined
+ */
+export function normalizeQuestionType(value: unknown): QuestionType | undefined {
+  if (typeof value !== 'string') return undefined;
+  const key = value.trim().toLowerCase().replace(/[\s\-\/]+/g, '_');
+  if ((QUESTION_TYPES as readonly string[]).includes(key)) return key as QuestionType;
+  return QUESTION_TYPE_ALIASES[key];
+}
+
+/**
+ * 将模型给出的难度规范为 DIFFICULTIES 中的取值，无法识别时返回 undefined
+ */
+export function normalizeDifficulty(value: unknown): Difficulty | undefined {
+  if (typeof value !== 'string') return undefined;
+  const key = value.trim().toLowerCase();
+  return (DIFFICULTIES as readonly string[]).includes(key) ? key as Difficulty : undefined;
+}
+
+/**
+ * 构造分类请求，只需要问题和答案，不需要原文
+ */
+export function buildClassificationMessages(question: string, answer: string): { systemPrompt: string; messages: ChatMessage[] } {
+  return {
+    systemPrompt: CLASSIFIER_SYSTEM_PROMPT,
+    messages: [{ role: 'user', content: `--- 问题 ---\n${question}\n\n--- 答案 ---\n${answer}` }],
+  };
+}
+
+/**
+ * 解析分类模型的回复，结构化输出时直接使用对象，否则从文本中提取第一个 JSON 对象
+ * @returns 问题类型或难度无法识别时返回 undefined
+ */
+export function parseClassification(content: string, object?: unknown): { questionType: QuestionType; difficulty: Difficulty } | undefined {
+  let data: any = object;
+  if (!data || typeof data !== 'object') {
+    const match = content.match(/\{[\s\S]*\}/);
+    if (!match) return undefined;
+    try {
+      data = JSON.parse(match[0]);
+    } catch (error) {
+      return undefined;
+    }
+  }
+  const questionType = normalizeQuestionType(data.question_type);
+  const difficulty = normalizeDifficulty(data.difficulty);
+  return questionType && difficulty ? { questionType, difficulty } : undefined;
+}
+
+/**
+ * 统计 results.json 中问题类型和难度的分布，生成失败的记录不计入；没有任何记录带有标注时返回 undefined
+ */
+export function countDistribution(results: any[]): { question_types: Record<string, number>; difficulties: Record<string, number> } | undefined {
+  const questionTypes: Record<string, number> = {};
+  const difficulties: Record<string, number> = {};
+  for (const entry of results) {
+    if (entry.error_category) continue;
+    if (entry.question_type) questionTypes[entry.question_type] = (questionTypes[entry.question_type] || 0) + 1;
+    if (entry.difficulty) difficulties[entry.difficulty] = (difficulties[entry.difficulty] || 0) + 1;
+  }
+  if (Object.keys(questionTypes).length === 0 && Object.keys(difficulties).length === 0) return undefined;
+  return { question_types: questionTypes, difficulties };
+}
@@ -0,0 +1,169 @@
+// lib/generation/question-dedup.ts
+import { readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+// 运行目录下记录被删除的重复问题，继续运行时据此确认这些任务已完成
+export const DUPLICATES_FILE_NAME = 'duplicates.json';
+
+// 默认相似度阈值，MinHash 估计的 Jaccard 相似度达到该值即视为重复
+const DEFAULT_THRESHOLD = 0.8;
+// 字符 n-gram 长度，中文按字切分，不依赖分词器
+const SHINGLE_SIZE = 3;
+// MinHash 签名长度，越长估计越准确
+const NUM_HASHES = 64;
+// 提示词中最多列出的已生成问题数
+const MAX_HINT_QUESTIONS = 20;
+
+// 空白、ASCII 标点和全角标点，比较问题前去除
+const IGNORED_CHARS_REGEX = /[\s!-\/:-@\[-`{-~\u3000-\u303f\uff01-\uff0f\uff1a-\uff20\uff3b-\uff40\uff5b-\uff65]+/g;
+
+/**
+ * off：不去重；flag：保留重复问题并标记 duplicate_of；drop：删除重复问题，记录到 duplicates.json
+ */
+export type DedupMode = 'off' | 'flag' | 'drop';
+/**
+ * source：只与同一来源的问题比较；run：与整个运行的问题比较
+ */
+export type DedupScope = 'source' | 'run';
+
+export interface DedupConfig {
+  mode: DedupMode;
+  threshold: number;
+  scope: DedupScope;
+  promptHint: boolean; // 在下一轮的提示词中列出该内容此前已生成的问题
+}
+
+/**
+ * 被删除的重复问题
+ */
+export interface DroppedDuplicate {
+  task_id: number;
+  source: string;
+  question: string;
+  answer: string;
+  duplicate_of: number; // 与之重复的 results.json 中的问题 id
+  similarity: number;
+}
+
+/**
+ * 从运行页面提交的 testConfig 中读取去重设置（dedupMode / dedupThreshold / dedupScope / dedupPromptHint），
+ * 未设置时不去重，以便旧运行继续运行或回放时与原运行一致
+ */
+export function parseDedupConfig(testConfig: any): DedupConfig {
+  const threshold = Number(testConfig?.dedupThreshold);
+  return {
+    mode: testConfig?.dedupMode === 'flag' || testConfig?.dedupMode === 'drop' ? testConfig.dedupMode : 'off',
+    threshold: Number.isFinite(threshold) && threshold > 0 && threshold <= 1 ? threshold : DEFAULT_THRESHOLD,
+    scope: testConfig?.dedupScope === 'source' ? 'source' : 'run',
+    promptHint: !!testConfig?.dedupPromptHint,
+  };
+}
+
+// 32 位整数混淆（murmur3 fmix32）
+function mix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+// FNV-1a 字符串哈希
+function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// 每个哈希函数的种子，固定取值保证同样的问题在任何运行中得到相同的签名
+const HASH_SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * 计算问题的 MinHash 签名：去除空白和标点后切分为字符 n-gram，每个哈希函数取最小值
+ */
+function computeSignature(question: string): Uint32Array {
+  const normalized = question.toLowerCase().replace(IGNORED_CHARS_REGEX, '');
+  const shingles = new Set<number>();
+  if (normalized.length <= SHINGLE_SIZE) {
+    shingles.add(hashString(normalized));
+  } else {
+    for (let i = 0; i <= normalized.length - SHINGLE_SIZE; i++) {
+      shingles.add(hashString(normalized.substring(i, i + SHINGLE_SIZE)));
+    }
+  }
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let k = 0; k < NUM_HASHES; k++) {
+      const value = mix32(shingle ^ HASH_SEEDS[k]);
+      if (value < signature[k]) signature[k] = value;
+    }
+  }
+  return signature;
+}
+
+function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let k = 0; k < NUM_HASHES; k++) {
+    if (a[k] === b[k]) equal++;
+  }
+  return equal / NUM_HASHES;
+}
+
+/**
+ * 按字符 n-gram 的 MinHash 相似度检测近似重复的问题
+ */
+export class QuestionDeduplicator {
+  private readonly config: DedupConfig;
+  private readonly entries: { id: number; source: string; signature: Uint32Array }[] = [];
+
+  constructor(config: DedupConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 检查问题是否与已收录的问题重复，不重复时收录该问题
+   * @param id 问题在 results.json 中的 id
+   * @returns 重复时返回相似度最高的已收录问题
+   */
+  check(id: number, question: string, source: string): { id: number; similarity: number } | undefined {
+    const signature = computeSignature(question);
+    let best: { id: number; similarity: number } | undefined;
+    for (const entry of this.entries) {
+      if (this.config.scope === 'source' && entry.source !== source) continue;
+      const similarity = estimateSimilarity(signature, entry.signature);
+      if (similarity >= this.config.threshold && (!best || similarity > best.similarity)) {
+        best = { id: entry.id, similarity };
+      }
+    }
+    if (!best) this.entries.push({ id, source, signature });
+    return best;
+  }
+}
+
+/**
+ * 构造提示词中“此前已生成的问题”部分，只列出最近的若干个
+ */
+export function buildPreviousQuestionsHint(questions: string[]): string {
+  if (questions.length === 0) return '';
+  const listed = questions.slice(-MAX_HINT_QUESTIONS).map((question, index) => `${index + 1}. ${question}`).join('\n');
+  return `\n\n---\n以下是此前已根据以上内容生成的问题，请不要重复，也不要生成意思相近的问题：\n${listed}`;
+}
+
+/**
+ * 读取运行目录下被删除的重复问题，不存在时返回空列表
+ */
+export async function readDroppedDuplicates(runDir: string): Promise<DroppedDuplicate[]> {
+  try {
+    return JSON.parse(await readFile(join(runDir, DUPLICATES_FILE_NAME), 'utf-8'));
+  } catch (error) {
+    return [];
+  }
+}
+
+export async function writeDroppedDuplicates(runDir: string, duplicates: DroppedDuplicate[]) {
+  await writeFile(join(runDir, DUPLICATES_FILE_NAME), JSON.stringify(duplicates, null, 2), 'utf-8');
+}
@@ -0,0 +1,43 @@
+// lib/generation/run-budget.ts
+
+/**
+ * 一次运行的预算上限，未设置的项不限制
+ */
+export interface RunBudget {
+  maxTokens?: number; // 累计 token 消耗上限
+  maxCost?: number;   // 累计预估费用上限，币种与价格表一致
+}
+
+function positiveOrUndefined(value: unknown): number | undefined {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+/**
+ * 从运行页面提交的 testConfig 中读取预算（tokenBudget / costBudget，0 或空表示不限制）
+ */
+export function parseRunBudget(testConfig: any): RunBudget {
+  return {
+    maxTokens: positiveOrUndefined(testConfig?.tokenBudget),
+    maxCost: positiveOrUndefined(testConfig?.costBudget),
+  };
+}
+
+export function hasBudget(budget: RunBudget): boolean {
+  return budget.maxTokens !== undefined || budget.maxCost !== undefined;
+}
+
+/**
+ * 检查累计消耗是否已达到预算
+ * @param usedCost 累计预估费用，无法估算（价格表中没有该模型）时为 undefined，此时不检查费用上限
+ * @returns 已达到时返回原因说明，否则返回 undefined
+ */
+export function checkBudget(budget: RunBudget, usedTokens: number, usedCost?: number): string | undefined {
+  if (budget.maxTokens !== undefined && usedTokens >= budget.maxTokens) {
+    return `累计 token 消耗 ${usedTokens.toLocaleString()} 已达到预算上限 ${budget.maxTokens.toLocaleString()}`;
+  }
+  if (budget.maxCost !== undefined && usedCost !== undefined && usedCost >= budget.maxCost) {
+    return `累计预估费用 ${usedCost.toFixed(4)} 已达到预算上限 ${budget.maxCost}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,159 @@
+// lib/generation/run-estimate.ts
+import { estimateMessagesTokens, estimateTextTokens } from '@/lib/llm/token-estimator';
+import { getContextWindow } from '@/lib/llm/model-capabilities';
+import { PricingTable, computeCost, findModelPrice } from '@/lib/llm/model-pricing';
+import { KnowledgeContent } from './knowledge-loader';
+import { buildBatchInstruction } from './qa-parser';
+import { GENERATION_TASK_TYPES, GenerationTaskType, GenerationTestConfig, buildTaskPlan } from './task-plan';
+import { packTaskContext } from './context-packer';
+import { DocumentRelatednessIndex } from './document-selector';
+import { UNANSWERABLE_INSTRUCTION, UNANSWERABLE_SOURCE, resolveUnanswerableSystemPrompt } from './unanswerable';
+
+// 每组问答（问题、答案、要点）的平均输出 token 数，仅用于预估
+const ESTIMATED_OUTPUT_TOKENS_PER_QUESTION = 400;
+// 未设置单次回复上限时，与 runTask 一致按 8192 预留输出空间
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+// 综合任务和无法回答任务的起始文档在运行时随机选取，预估时最多按这么多个起始文档打包，取平均值计算消耗、最大值检查超长
+const MAX_ESTIMATE_START_DOCUMENTS = 20;
+
+export interface CategoryEstimate {
+  tasks: number;
+  questions: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost?: number;    // 价格表中没有该模型时为空
+  skipped: boolean; // 系统提示词为空，运行时会跳过该类别
+  no_documents: boolean; // 设置了生成数量但知识库中没有文档，综合任务和无法回答任务无法组织上下文，不会安排任务
+}
+
+/**
+ * 单次调用可能超出上下文窗口的内容
+ */
+export interface OversizedItem {
+  category: GenerationTaskType;
+  source: string;
+  input_tokens: number;
+}
+
+export interface RunEstimate {
+  model: string;
+  context_window?: number;  // 未知时为空，此时不检查超长内容
+  currency: string;
+  total_tasks: number;
+  categories: Record<GenerationTaskType, CategoryEstimate>;
+  total: { input_tokens: number; output_tokens: number; cost?: number };
+  oversized: OversizedItem[];
+}
+
+/**
+ * 不调用模型，按与 runTask 相同的任务安排估算一次运行的 token 消耗和费用，
+ * 并找出输入加上预留的输出空间后会超出模型上下文窗口的内容。
+ * @param project 项目配置（config.project）
+ * @param models 工作模型及备用模型，按工作模型估算费用和检查上下文窗口
+ */
+export function estimateRun(
+  knowledge: KnowledgeContent,
+  project: any,
+  testConfig: GenerationTestConfig,
+  models: string[],
+  pricing: PricingTable
+): RunEstimate {
+  const model = models[0];
+  const plan = buildTaskPlan(knowledge, testConfig);
+  const price = findModelPrice(pricing, model);
+  const contextWindow = getContextWindow(model);
+  const structuredOutput = !!project.workModelParams?.structuredOutput;
+  const maxOutputTokens = project.workModelParams?.maxTokens?.[0] || DEFAULT_MAX_OUTPUT_TOKENS;
+  const systemPrompts: Record<GenerationTaskType, string> = {
+    QA: project.qaSystemPrompt || '',
+    Chunk: project.chunkSystemPrompt || '',
+    Document: project.documentSystemPrompt || '',
+    Comprehensive: project.comprehensiveSystemPrompt || '',
+    Unanswerable: resolveUnanswerableSystemPrompt(project),
+  };
+
+  // 与 runTask 相同，文档多于一个时按相关度选取上下文文档
+  const documents = knowledge.documents;
+  const relatednessIndex = plan.categories.Comprehensive.tasks + plan.categories.Unanswerable.tasks > 0 && documents.length > 1 ? new DocumentRelatednessIndex(documents) : undefined;
+  const startIndexes = Array.from(
+    new Set(Array.from({ length: Math.min(documents.length, MAX_ESTIMATE_START_DOCUMENTS) }, (_, i) => Math.floor(i * documents.length / Math.min(documents.length, MAX_ESTIMATE_START_DOCUMENTS))))
+  );
+
+  const oversized: OversizedItem[] = [];
+  const total: RunEstimate['total'] = { input_tokens: 0, output_tokens: 0, cost: price ? 0 : undefined };
+  const categories = {} as Record<GenerationTaskType, CategoryEstimate>;
+
+  for (const taskType of GENERATION_TASK_TYPES) {
+    const categoryPlan = plan.categories[taskType];
+    const systemPrompt = systemPrompts[taskType];
+    const estimate: CategoryEstimate = {
+      tasks: categoryPlan.tasks,
+      questions: categoryPlan.itemCount * categoryPlan.questionCount,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost: price ? 0 : undefined,
+      skipped: !systemPrompt.trim() && categoryPlan.tasks > 0,
+      no_documents: (taskType === 'Comprehensive' || taskType === 'Unanswerable') && categoryPlan.questionCount > 0 && documents.length === 0,
+    };
+    categories[taskType] = estimate;
+    if (estimate.skipped || categoryPlan.tasks === 0) continue;
+
+    // 系统提示词和消息格式开销，每次调用都相同
+    const baseTokens = estimateMessagesTokens([{ role: 'user', content: '' }], systemPrompt);
+    // 与 runTask 相同：每轮每个内容调用一次模型，最后一轮只生成剩余的问题数；
+    // 综合任务和无法回答任务的上下文与运行时一样选取相关文档并按 token 预算打包，起始文档不确定，取各起始文档的平均值和最大值
+    const contextTask = taskType === 'Comprehensive' || taskType === 'Unanswerable';
+    const instruction = taskType === 'Unanswerable' ? UNANSWERABLE_INSTRUCTION : '';
+    const sources = contextTask
+      ? [{ source: taskType === 'Comprehensive' ? '综合文档' : UNANSWERABLE_SOURCE, tokens: 0 }]
+      : categoryPlan.items.map(item => ({ source: item.source, tokens: estimateTextTokens(item.content) }));
+
+    for (const { source, tokens } of sources) {
+      let largestInput = 0;
+      for (let loop = 1; loop <= categoryPlan.callsPerItem; loop++) {
+        const questionsThisCall = Math.min(categoryPlan.perCall, categoryPlan.questionCount - (loop - 1) * categoryPlan.perCall);
+        const batchInstruction = questionsThisCall > 1 ? buildBatchInstruction(questionsThisCall, structuredOutput) : '';
+        let contentTokens = { average: tokens, largest: tokens };
+        if (contextTask) {
+          const reservedTokens = estimateMessagesTokens([{ role: 'user', content: instruction + batchInstruction }], systemPrompt);
+          const packedTokens = startIndexes.map(startIndex => packTaskContext(documents, relatednessIndex, startIndex, models, reservedTokens, maxOutputTokens).packed.tokens);
+          contentTokens = {
+            average: Math.round(packedTokens.reduce((sum, value) => sum + value, 0) / Math.max(1, packedTokens.length)),
+            largest: Math.max(0, ...packedTokens),
+          };
+        }
+        const otherTokens = baseTokens + estimateTextTokens(instruction) + estimateTextTokens(batchInstruction);
+        const outputTokens = Math.min(questionsThisCall * ESTIMATED_OUTPUT_TOKENS_PER_QUESTION, maxOutputTokens);
+        estimate.input_tokens += otherTokens + contentTokens.average;
+        estimate.output_tokens += outputTokens;
+        largestInput = Math.max(largestInput, otherTokens + contentTokens.largest);
+      }
+      if (contextWindow && largestInput + maxOutputTokens > contextWindow) {
+        oversized.push({ category: taskType, source, input_tokens: largestInput });
+      }
+    }
+
+    if (price) {
+      estimate.cost = computeCost({
+        prompt_tokens: estimate.input_tokens,
+        completion_tokens: estimate.output_tokens,
+        reasoning_tokens: 0,
+        cachedInput_tokens: 0,
+        total_tokens: estimate.input_tokens + estimate.output_tokens,
+      }, price, model);
+    }
+    total.input_tokens += estimate.input_tokens;
+    total.output_tokens += estimate.output_tokens;
+    if (total.cost !== undefined) total.cost += estimate.cost || 0;
+  }
+
+  return {
+    model,
+    context_window: contextWindow,
+    currency: pricing.currency,
+    total_tasks: plan.totalTasks,
+    categories,
+    total,
+    oversized,
+  };
+}
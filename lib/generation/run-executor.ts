@@ -0,0 +1,996 @@
+// lib/generation/run-executor.ts
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { handleChat, readChatStream } from '@/lib/llm/model-service';
+import { ChatMessage, LlmGenerationOptions, NonStreamingResult, ReasoningEffort, TokenUsage } from '@/lib/llm/types';
+import { appendToLogFile, ensureLogFileExists } from '@/lib/server-utils';
+import { Cassette, CassetteMissError, openRunCassette } from '@/lib/llm/cassette';
+import { ResponseCache, openResponseCache } from '@/lib/llm/response-cache';
+import { ERROR_CATEGORY_LABELS, LlmErrorCategory, MalformedOutputError, classifyLlmError, computeBackoffDelay, getRetryPolicy } from '@/lib/llm/error-classifier';
+import { resolveModelChain } from '@/lib/llm/model-chain';
+import { getProviderMaxConcurrency } from '@/lib/llm/model-config';
+import { loadPricingTable } from '@/lib/llm/model-pricing';
+import { estimateMessagesTokens } from '@/lib/llm/token-estimator';
+import { QA_JSON_SCHEMA, buildBatchQASchema, buildBatchInstruction, parseGeneratedQAList } from './qa-parser';
+import { RunCostTracker, addTokenUsage, emptyTokenUsage, formatCost } from './cost-tracker';
+import { classifyAndCacheKnowledgeContent } from './knowledge-loader';
+import { checkBudget, hasBudget, parseRunBudget } from './run-budget';
+import { GenerationTaskType, buildTaskPlan } from './task-plan';
+import { packTaskContext } from './context-packer';
+import { DocumentRelatednessIndex } from './document-selector';
+import { runOrderedPool } from './worker-pool';
+import { AnswerVerification, CONTEXT_FILE_NAME, VERIFICATION_JSON_SCHEMA, VERIFICATION_VERDICT_LABELS, VerificationVerdict, buildVerificationMessages, countVerdicts, parseVerification } from './answer-verifier';
+import { CLASSIFICATION_JSON_SCHEMA, Difficulty, QuestionType, buildClassificationMessages, parseClassification } from './question-classifier';
+import { UNANSWERABLE_INSTRUCTION, UNANSWERABLE_SOURCE, resolveUnanswerableSystemPrompt } from './unanswerable';
+import { DroppedDuplicate, QuestionDeduplicator, buildPreviousQuestionsHint, parseDedupConfig, readDroppedDuplicates, writeDroppedDuplicates } from './question-dedup';
+import { createSeededRandom, deriveSeed, generateSeed, parseSeed } from './seeded-random';
+import { RunManifest, RunManifestStatus, buildRunConfigFromManifest, createRunManifest, findChangedKnowledgeFiles, finishRunManifest, isRunResumable, readRunManifest, readRunResults, writeRunManifest } from './run-manifest';
+
+// 运行结果的根目录，每次运行在其下创建 YYMMDD_HHMMSS 子目录
+export const RESULT_DIR = join(process.cwd(), 'output', 'result');
+
+// 用户取消运行时，进度回调抛出的错误信息
+export const RUN_CANCELLED_MESSAGE = '任务已被用户取消';
+
+// 安全调用大模型包装器，按错误类别决定是否重试，重试间隔为带抖动的指数退避
+interface SafeCallResult {
+  success: boolean;
+  content?: string; // 失败时若模型有回复（如输出格式错误），保留原始回复方便排查
+  object?: unknown; // 结构化输出模式下生成的对象
+  tokenUsage?: TokenUsage;
+  usageByModel?: Record<string, TokenUsage>; // 每个尝试过的模型各自的 token 消耗，用于按模型价格计算费用
+  durationUsage?: {
+    total_duration: number; // 整个请求处理的总耗时（单位通常是纳秒）。包含了模型加载、提示词处理和内容生成的所有时间
+    load_duration: number;  // 如果模型不在内存中，加载模型到内存所花费的时间。如果模型已经加载，这个值可能为0。
+    prompt_eval_duration: number; // 处理（评估）输入提示词（prompt）所花费的时间。
+    eval_duration: number;  // 生成回复内容所花费的时间。
+  };
+  error?: string;
+  errorCategory?: LlmErrorCategory; // 最终失败的错误类别
+  model?: string; // 实际产生该结果的模型（失败时为最后尝试的模型）
+}
+
+async function callModelWithRetries(
+  selectedModel: string,
+  messages: ChatMessage[],
+  options: LlmGenerationOptions,
+  retries?: number, // 最多重试次数，默认读取 LLM_MAX_RETRIES
+  onStreamText?: (fullText: string) => void, // 流式模式下，每收到一块正文时回调
+  validate?: (result: NonStreamingResult) => string | undefined // 校验模型回复，返回问题描述时按输出格式错误重试
+): Promise<SafeCallResult> {
+  const policy = getRetryPolicy();
+  const maxRetries = retries ?? policy.maxRetries;
+  // 重试过程中每次有回复的调用都实际消耗了 token，全部累计
+  const tokenUsage = emptyTokenUsage();
+  let malformedResult: NonStreamingResult | undefined;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      // 重试时换用派生的 seed，避免固定 seed 下重复得到同样的错误输出
+      const attemptOptions = attempt > 0 && options.seed !== undefined
+        ? { ...options, seed: deriveSeed(options.seed, `retry:${attempt}`), seedKey: `${options.seedKey ?? ''}/retry:${attempt}` }
+        : options;
+      const response = await handleChat(selectedModel, messages, attemptOptions);
+      // 流式模式下返回的是 SSE 字节流，边读边回调增量正文，最终汇总为完整结果
+      const result: NonStreamingResult = response instanceof ReadableStream
+        ? await readChatStream(response, onStreamText)
+        : response;
+
+      if (!result || typeof result.content !== 'string') {
+        throw new MalformedOutputError("Model call succeeded but returned unexpected format.", '');
+      }
+      addTokenUsage(tokenUsage, result.usage);
+
+      const problem = validate?.(result);
+      if (problem) {
+        malformedResult = result;
+        throw new MalformedOutputError(problem, result.content);
+      }
+
+      return {
+        success: true,
+        content: result.content,
+        object: result.object,
+        tokenUsage: tokenUsage,
+        durationUsage: result.duration
+      };
+    } catch (error: any) {
+      // 回放时找不到录制记录，重试也不会成功，直接终止运行
+      if (error instanceof CassetteMissError) throw error;
+
+      const classified = classifyLlmError(error);
+      const label = ERROR_CATEGORY_LABELS[classified.category];
+      console.error(`[callModelWithRetries] Attempt ${attempt + 1} for ${selectedModel} failed [${classified.category}]:`, error);
+
+      if (!classified.retryable || attempt === maxRetries) {
+        if (options.logPath) {
+          await appendToLogFile(options.logPath, `--- 调用失败 [${label}] ---\n第 ${attempt + 1} 次调用: ${classified.message}\n${classified.retryable ? '已用完重试次数' : '该类错误不重试'}\n\n`);
+        }
+        return {
+          success: false,
+          content: malformedResult?.content,
+          object: malformedResult?.object,
+          tokenUsage: tokenUsage,
+          durationUsage: malformedResult?.duration,
+          error: classified.message || "A critical error occurred during model call",
+          errorCategory: classified.category
+        };
+      }
+
+      const delayMs = computeBackoffDelay(attempt + 1, policy, classified.retryAfterMs);
+      console.log(`[callModelWithRetries] Retrying in ${delayMs}ms... (Attempt ${attempt + 2})`);
+      if (options.logPath) {
+        await appendToLogFile(options.logPath, `--- 调用失败 [${label}] ---\n第 ${attempt + 1} 次调用: ${classified.message}\n${delayMs}ms 后重试${classified.retryAfterMs !== undefined ? '（按 Retry-After）' : ''}\n\n`);
+      }
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+  // 理论上不会执行到这里，但在 TS 中为了类型安全返回一个默认失败结果
+  return { success: false, error: "Exited retry loop unexpectedly", errorCategory: 'unknown' };
+}
+
+// 按顺序尝试模型链：当前模型重试耗尽（或遇到不可重试的错误）后切换到下一个备用模型
+async function safeModelCall(
+  modelChain: string[],
+  messages: ChatMessage[],
+  options: LlmGenerationOptions,
+  retries?: number,
+  onStreamText?: (fullText: string) => void,
+  validate?: (result: NonStreamingResult) => string | undefined
+): Promise<SafeCallResult> {
+  const tokenUsage = emptyTokenUsage();
+  const usageByModel: Record<string, TokenUsage> = {};
+  let result: SafeCallResult = { success: false, error: "No work model configured", errorCategory: 'unknown' };
+
+  for (let index = 0; index < modelChain.length; index++) {
+    const model = modelChain[index];
+    result = await callModelWithRetries(model, messages, options, retries, onStreamText, validate);
+    // 失败的模型也可能已经消耗了 token，全部累计
+    addTokenUsage(tokenUsage, result.tokenUsage);
+    usageByModel[model] = result.tokenUsage || emptyTokenUsage();
+    result = { ...result, tokenUsage, usageByModel, model };
+    if (result.success) return result;
+
+    const next = modelChain[index + 1];
+    if (next) {
+      console.log(`[safeModelCall] ${model} failed [${result.errorCategory}], falling back to ${next}`);
+      if (options.logPath) {
+        await appendToLogFile(options.logPath, `--- 切换备用模型 ---\n${model} 调用失败 [${ERROR_CATEGORY_LABELS[result.errorCategory || 'unknown']}]，改用 ${next}\n\n`);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * 用校验模型检查一条问答是否能根据上下文回答、答案是否忠实，调用失败或回复无法解析时结论为 error
+ * @param options 额外的调用参数，如 seed、日志路径、录制磁带
+ */
+async function verifyAnswer(
+  verifierChain: string[],
+  context: string,
+  question: string,
+  answer: string,
+  options: LlmGenerationOptions
+): Promise<{ verification: AnswerVerification; result: SafeCallResult }> {
+  const { systemPrompt, messages } = buildVerificationMessages(context, question, answer);
+  const verifyOptions: LlmGenerationOptions = {
+    timeoutMs: 90000,
+    maxOutputTokens: 1024,
+    temperature: 0, // 校验结论应尽量稳定
+    systemPrompt,
+    outputSchema: VERIFICATION_JSON_SCHEMA,
+    requestKind: 'verification',
+    ...options,
+  };
+  const validate = (result: NonStreamingResult) =>
+    parseVerification(result.content, result.object) ? undefined : '无法从校验模型回复中解析出结论';
+  const result = await safeModelCall(verifierChain, messages, verifyOptions, undefined, undefined, validate);
+  const parsed = result.success && result.content !== undefined ? parseVerification(result.content, result.object) : undefined;
+  const verification: AnswerVerification = parsed
+    ? { ...parsed, model: result.model }
+    : { verdict: 'error', confidence: 0, rationale: result.error || '校验失败', model: result.model };
+  return { verification, result };
+}
+
+/**
+ * 标注一条问答的问题类型和难度，调用失败或回复无法解析时返回 undefined，该问答不带标注
+ * @param options 额外的调用参数，如 seed、日志路径、录制磁带
+ */
+async function classifyQuestion(
+  modelChain: string[],
+  question: string,
+  answer: string,
+  options: LlmGenerationOptions
+): Promise<{ classification?: { questionType: QuestionType; difficulty: Difficulty }; result: SafeCallResult }> {
+  const { systemPrompt, messages } = buildClassificationMessages(question, answer);
+  const classifyOptions: LlmGenerationOptions = {
+    timeoutMs: 90000,
+    maxOutputTokens: 256,
+    temperature: 0, // 标注结果应尽量稳定
+    systemPrompt,
+    outputSchema: CLASSIFICATION_JSON_SCHEMA,
+    requestKind: 'classification',
+    ...options,
+  };
+  const validate = (result: NonStreamingResult) =>
+    parseClassification(result.content, result.object) ? undefined : '无法从模型回复中解析出问题类型和难度';
+  const result = await safeModelCall(modelChain, messages, classifyOptions, undefined, undefined, validate);
+  const classification = result.success && result.content !== undefined ? parseClassification(result.content, result.object) : undefined;
+  return { classification, result };
+}
+
+/**
+ * 将校验、分类调用的 token 消耗合并到生成调用的结果中，费用和预算按任务整体计算
+ */
+function mergeCallUsage(target: SafeCallResult, extra: SafeCallResult): SafeCallResult {
+  const tokenUsage = addTokenUsage(addTokenUsage(emptyTokenUsage(), target.tokenUsage), extra.tokenUsage);
+  const usageByModel: Record<string, TokenUsage> = {};
+  for (const source of [target.usageByModel, extra.usageByModel]) {
+    for (const [model, usage] of Object.entries(source || {})) {
+      usageByModel[model] = addTokenUsage(usageByModel[model] || emptyTokenUsage(), usage);
+    }
+  }
+  return { ...target, tokenUsage, usageByModel };
+}
+
+/**
+ * 校验模型链：运行页面选择了校验模型时只使用该模型，否则与工作模型相同
+ */
+function resolveVerifierChain(testConfig: any, modelChain: string[]): string[] {
+  return typeof testConfig?.verifierModel === 'string' && testConfig.verifierModel ? [testConfig.verifierModel] : modelChain;
+}
+
+/**
+ * 生成新运行的目录名（YYMMDD_HHMMSS），同一秒内已有运行时加上 _2、_3 等后缀
+ * @param isTaken 额外判断目录名是否已被占用（如已创建但尚未建立目录的运行）
+ */
+export function createRunId(isTaken: (runId: string) => boolean = () => false): string {
+  const base = formatRunTimestamp(new Date());
+  let runId = base;
+  for (let suffix = 2; existsSync(join(RESULT_DIR, runId)) || isTaken(runId); suffix++) {
+    runId = `${base}_${suffix}`;
+  }
+  return runId;
+}
+
+function formatRunTimestamp(now: Date): string {
+  const pad = (num: number) => num.toString().padStart(2, '0');
+  const year = now.getFullYear().toString().slice(-2);
+  const month = pad(now.getMonth() + 1);
+  const day = pad(now.getDate());
+  const hours = pad(now.getHours());
+  const minutes = pad(now.getMinutes());
+  const seconds = pad(now.getSeconds());
+  return `${year}${month}${day}_${hours}${minutes}${seconds}`;
+}
+
+/**
+ * 运行继续时使用的运行目录名，新运行返回 undefined
+ * @param config 运行配置，继续运行时带有 resumeRunId
+ */
+export function getResumeRunId(config: any): string | undefined {
+  return typeof config?.resumeRunId === 'string' && config.resumeRunId ? basename(config.resumeRunId) : undefined;
+}
+
+/**
+ * 运行的结束方式和结束消息
+ */
+export interface RunOutcome {
+  status: RunManifestStatus;
+  message: string;
+}
+
+/**
+ * 执行一次运行（新运行或继续未完成的运行），负责结果目录、种子、manifest、缓存和费用统计的准备与收尾
+ * @param config 运行页面提交的配置，继续运行时只需 resumeRunId 和预算
+ * @param runId 运行目录名
+ * @param onProgress 进度事件回调，事件格式与运行页面接收的 SSE 消息一致；运行被取消后应抛出 RUN_CANCELLED_MESSAGE
+ * @param isCancelled 检查运行是否已被取消
+ * @returns 运行的结束方式，出错时不抛出，以 failed 状态返回
+ */
+export async function executeRun(config: any, runId: string, onProgress: (data: object) => void, isCancelled: () => boolean): Promise<RunOutcome> {
+  let cassette: Cassette | undefined;
+  let responseCache: ResponseCache | undefined;
+  let manifest: RunManifest | undefined;
+  let costTracker: RunCostTracker | undefined;
+  let outcome: RunOutcome = { status: 'failed', message: '发生未知错误' };
+  let runError: string | undefined;
+  const resumeRunId = getResumeRunId(config);
+  const baseResultDir = join(RESULT_DIR, runId);
+  let previousResults: any[] = [];
+  let previousDuplicates: DroppedDuplicate[] = [];
+
+  try {
+    if (resumeRunId) {
+      const previousManifest = await readRunManifest(baseResultDir);
+      if (!previousManifest) {
+        throw new Error(`无法继续运行 ${resumeRunId}：找不到该运行的 manifest.json。`);
+      }
+      if (!isRunResumable(previousManifest)) {
+        throw new Error(`运行 ${resumeRunId} 已全部完成，无需继续。`);
+      }
+      // 沿用原运行的提示词、模型、参数、生成数量和种子；预算使用本次请求的设置
+      config = buildRunConfigFromManifest(previousManifest, config.testConfig);
+      previousResults = await readRunResults(baseResultDir);
+      previousDuplicates = await readDroppedDuplicates(baseResultDir);
+      manifest = { ...previousManifest, status: 'running', test_config: config.testConfig, resumed_at: [...(previousManifest.resumed_at || []), new Date().toISOString()] };
+      await writeRunManifest(baseResultDir, manifest);
+      onProgress({ type: 'log', message: `继续运行 ${resumeRunId}，已有 ${previousResults.length} 个问题` });
+
+      const changedFiles = await findChangedKnowledgeFiles(previousManifest);
+      if (changedFiles.length > 0) {
+        onProgress({ type: 'log', message: `警告: 以下知识库文件与原运行时不同，任务内容可能与原运行不一致: ${changedFiles.join(', ')}` });
+      }
+    } else {
+      await mkdir(baseResultDir, { recursive: true });
+      onProgress({ type: 'log', message: `结果目录已创建: ${runId}` });
+    }
+
+    // 按环境变量开启 LLM 调用的录制/回放
+    cassette = await openRunCassette(baseResultDir);
+    if (cassette) {
+      onProgress({ type: 'log', message: cassette.mode === 'record' ? `Cassette 录制模式，LLM 调用将记录到: ${cassette.filePath}` : `Cassette 回放模式，从 ${cassette.filePath} 回放，不调用模型提供商` });
+    }
+
+    // 运行种子：运行页面指定时使用指定值，否则随机生成；回放时使用录制运行的种子，保证请求与录制时一致
+    const pinnedSeed = parseSeed(config.testConfig?.seed);
+    const requestedSeed = pinnedSeed ?? generateSeed();
+    const seed = manifest ? manifest.seed : cassette ? cassette.captureValue('run-seed', () => requestedSeed) : requestedSeed;
+    // 继续运行时沿用原运行的设置，较早的运行没有记录，按指定种子处理
+    const seedPinned = manifest ? manifest.seed_pinned ?? true : pinnedSeed !== undefined;
+    if (!manifest) {
+      // 运行开始时记录完整的配置快照，结束时补充运行结果统计
+      manifest = await createRunManifest(runId, config, seed, seedPinned);
+      await writeRunManifest(baseResultDir, manifest);
+    }
+    onProgress({ type: 'log', message: `运行种子: ${seed}` });
+    onProgress({ type: 'seed', seed });
+
+    // 响应缓存需在 .env 中开启，运行页面可以选择本次运行跳过缓存；随机生成的运行种子不计入缓存指纹，相同内容的多次运行可以命中缓存
+    responseCache = openResponseCache(!!config.testConfig?.bypassCache, seedPinned);
+    if (responseCache) {
+      onProgress({ type: 'log', message: `响应缓存已启用: ${responseCache.dir}` });
+    }
+
+    // 按价格表估算费用，写入结果目录下的 cost.json
+    const pricing = await loadPricingTable();
+    costTracker = new RunCostTracker(pricing);
+    // 继续运行时恢复已完成任务的消耗，预算和费用统计按整个运行累计
+    await costTracker.restore(baseResultDir, new Set([...previousResults, ...previousDuplicates].map(entry => entry.task_id)));
+    if (Object.keys(pricing.models).length === 0) {
+      onProgress({ type: 'log', message: '未找到模型价格表，本次运行只统计 token 消耗，不估算费用。' });
+    }
+
+    // 调用主任务执行器，传递取消检查函数
+    const taskOutcome = await runTask(config, baseResultDir, onProgress, isCancelled, seed, cassette, responseCache, costTracker, previousResults, previousDuplicates);
+
+    if (isCancelled()) {
+      outcome = { status: 'cancelled', message: `${RUN_CANCELLED_MESSAGE}。` };
+    } else {
+      let doneMessage = taskOutcome?.budgetExhausted ? `${taskOutcome.budgetExhausted}，运行已提前结束，已完成的结果已保存。` : '所有任务已成功完成。';
+      if (responseCache) {
+        const { hits, misses } = responseCache.getStats();
+        doneMessage += ` 响应缓存命中 ${hits} 次，未命中 ${misses} 次。`;
+        onProgress({ type: 'cache_stats', hits, misses });
+      }
+      const costSummary = costTracker.getSummary();
+      doneMessage += ` 预估费用 ${formatCost(costSummary.total.cost, costSummary.currency)}。`;
+      if (costSummary.unpriced_models.length > 0) {
+        doneMessage += ` 以下模型未在价格表中，未计入费用: ${costSummary.unpriced_models.join(', ')}。`;
+      }
+      // 达到预算时以 budget_exhausted 结束，区别于全部完成
+      outcome = { status: taskOutcome?.budgetExhausted ? 'budget_exhausted' : 'completed', message: doneMessage };
+    }
+  } catch (error: any) {
+    if (error.message === RUN_CANCELLED_MESSAGE) {
+      console.log("Task execution cancelled by user.");
+      outcome = { status: 'cancelled', message: `${RUN_CANCELLED_MESSAGE}。` };
+    } else {
+      console.error("Task execution error:", error);
+      const message: string = error.message || "发生未知错误";
+      runError = message;
+      outcome = { status: 'failed', message };
+    }
+  } finally {
+    await cassette?.flush();
+    if (manifest) {
+      const costSummary = costTracker?.getSummary();
+      await finishRunManifest(baseResultDir, manifest, outcome.status, {
+        tasks: costSummary?.total.tasks ?? 0,
+        token_usage: costSummary?.total.usage ?? emptyTokenUsage(),
+        cost: costSummary?.total.cost ?? 0,
+        currency: costSummary?.currency ?? '',
+      }, runError).catch(error => console.error("Failed to update run manifest:", error));
+    }
+  }
+  return outcome;
+}
+
+/**
+ * 校验任务对应的运行目录名，不是校验任务时返回 undefined
+ * @param config 任务配置，对已有运行的结果单独校验时带有 verifyRunId
+ */
+export function getVerifyRunId(config: any): string | undefined {
+  return typeof config?.verifyRunId === 'string' && config.verifyRunId ? basename(config.verifyRunId) : undefined;
+}
+
+/**
+ * 对已有运行的 results.json 单独进行答案校验，依据各任务目录下保存的 context.txt。
+ * 默认跳过已有校验结论的问题，testConfig.reverify 为 true 时全部重新校验
+ * @param config 校验请求：verifyRunId 和 testConfig（verifierModel、concurrency、reverify）
+ * @returns 校验的结束方式，出错时不抛出，以 failed 状态返回；不修改运行本身的状态
+ */
+export async function executeVerification(config: any, runId: string, onProgress: (data: object) => void, isCancelled: () => boolean): Promise<RunOutcome> {
+  const runDir = join(RESULT_DIR, runId);
+  try {
+    const manifest = await readRunManifest(runDir);
+    if (!manifest) {
+      throw new Error(`无法校验运行 ${runId}：找不到该运行的 manifest.json。`);
+    }
+    const modelChain = resolveModelChain(manifest.models.work_model, manifest.models.fallback_models);
+    const verifierChain = resolveVerifierChain(config.testConfig, modelChain);
+    if (verifierChain.length === 0) {
+      throw new Error("未配置校验模型。");
+    }
+    // 生成失败的记录没有可校验的问答；无法回答的问题按设计就不能从上下文回答，校验结论无法区分正确的拒答题和有问题的问答，不校验
+    const targets = (await readRunResults(runDir)).filter(entry => !entry.error_category && entry.answerable !== false && (config.testConfig?.reverify || !entry.verification));
+    const concurrency = resolveRunConcurrency(config.testConfig, verifierChain).effective;
+    onProgress({ type: 'log', message: `校验运行 ${runId} 的 ${targets.length} 个问题，校验模型: ${verifierChain.join(' → ')}` });
+    onProgress({ type: 'update', payload: { activeTaskMessage: '正在校验答案...', progress: 0, currentTask: 0, totalTasks: targets.length } });
+    const responseCache = openResponseCache(!!config.testConfig?.bypassCache);
+
+    let done = 0;
+    let skipped = 0;
+    let totalTokenUsage = 0;
+    await runOrderedPool(targets, concurrency, async (entry) => {
+      let context: string;
+      try {
+        context = await readFile(join(runDir, String(entry.task_id), CONTEXT_FILE_NAME), 'utf-8');
+      } catch (error) {
+        return undefined; // 较早的运行没有保存上下文
+      }
+      return verifyAnswer(verifierChain, context, entry.question, entry.answer, {
+        seed: deriveSeed(manifest.seed, `verify-entry:${entry.id}`),
+        seedKey: `verify-entry:${entry.id}`,
+        logPath: join(runDir, String(entry.task_id), 'log.txt'),
+        responseCache,
+      });
+    }, async (outcome, entry) => {
+      if (outcome) {
+        totalTokenUsage += outcome.result.tokenUsage?.total_tokens || 0;
+        onProgress({ type: 'token_usage', tokenUsage: totalTokenUsage });
+        // 校验期间测试题页面可能修改或删除了问题，重新读取后只更新内容未变的记录
+        const results = await readRunResults(runDir);
+        const current = results.find(result => result.id === entry.id);
+        if (current && current.question === entry.question && current.answer === entry.answer) {
+          current.verification = outcome.verification;
+          await writeFile(join(runDir, 'results.json'), JSON.stringify(results, null, 2), 'utf-8');
+        }
+        onProgress({ type: 'state_update', payload: { questionId: entry.source, questionText: entry.question, modelAnswer: `${outcome.verification.verdict}: ${outcome.verification.rationale}`, isStreaming: false, model: outcome.verification.model } });
+      } else {
+        skipped++;
+        onProgress({ type: 'log', message: `第 ${entry.id} 题所在的任务 ${entry.task_id} 没有保存上下文，已跳过` });
+      }
+      done++;
+      onProgress({ type: 'update', payload: { activeTaskMessage: `已校验 ${done}/${targets.length} 个问题`, progress: (done / targets.length) * 100, currentTask: done, totalTasks: targets.length } });
+    }, isCancelled);
+
+    // 更新 manifest 中的校验结论统计
+    const verdicts = countVerdicts(await readRunResults(runDir));
+    if (manifest.summary && verdicts) {
+      await writeRunManifest(runDir, { ...manifest, summary: { ...manifest.summary, verdicts } });
+    }
+    if (isCancelled()) {
+      return { status: 'cancelled', message: `${RUN_CANCELLED_MESSAGE}。已校验 ${done} 个问题。` };
+    }
+    const verdictText = verdicts ? Object.entries(verdicts).map(([verdict, count]) => `${VERIFICATION_VERDICT_LABELS[verdict as VerificationVerdict] || verdict} ${count}`).join('，') : '无';
+    return { status: 'completed', message: `答案校验完成，共 ${done - skipped} 个问题${skipped > 0 ? `，${skipped} 个缺少上下文已跳过` : ''}。校验结论: ${verdictText}。` };
+  } catch (error: any) {
+    if (error.message === RUN_CANCELLED_MESSAGE) {
+      return { status: 'cancelled', message: `${RUN_CANCELLED_MESSAGE}。` };
+    }
+    console.error("Verification error:", error);
+    return { status: 'failed', message: error.message || "发生未知错误" };
+  }
+}
+
+// 模型参数面板中推理强度（低/中/高）到通用推理强度的映射
+const REASONING_EFFORT_MAP: Record<string, ReasoningEffort> = {
+  '低': 'low',
+  '中': 'medium',
+  '高': 'high',
+};
+
+// 流式生成时向前端推送部分内容的最小间隔
+const STREAM_EMIT_INTERVAL_MS = 300;
+
+/**
+ * 从尚未生成完毕的模型回复中提取已经写出的问题和答案部分
+ * @param partialText 截至当前的模型回复
+ * @returns 若尚未出现 question: 行，则整段内容作为答案返回
+ */
+function extractPartialQuestionAnswer(partialText: string): { question: string; answer: string } {
+  const questionMatch = partialText.match(/^question:(.*)$/im);
+  if (!questionMatch) {
+    return { question: '', answer: partialText };
+  }
+  const answerIndex = partialText.search(/^answer:/im);
+  return {
+    question: questionMatch[1].trim(),
+    answer: answerIndex === -1 ? '' : partialText.substring(answerIndex + 'answer:'.length).trim(),
+  };
+}
+
+/**
+ * 并发数：运行页面设置的 concurrency（默认 1），不超过模型链中各提供商的并发上限。
+ * 这里只避免开出用不上的并发；多个运行同时执行时，由 handleChat 中进程内共享的提供商并发上限保证合计不超出
+ */
+function resolveRunConcurrency(testConfig: any, modelChain: string[]): { requested: number; effective: number } {
+  const value = Number(testConfig?.concurrency);
+  const requested = Number.isInteger(value) && value >= 1 ? value : 1;
+  const providerLimit = Math.min(...modelChain.map(model => getProviderMaxConcurrency(model.split(':')[0])));
+  return { requested, effective: Math.max(1, Math.min(requested, providerLimit)) };
+}
+
+// 一个生成任务：对一个内容调用一次模型，生成 questionsThisCall 个问题
+interface GenerationTask {
+  id: number;             // 任务编号，对应结果目录下的任务子目录
+  taskType: GenerationTaskType;
+  systemPrompt: string;
+  item: any;              // 知识条目，综合任务为空对象
+  taskMessage: string;    // 运行页面显示的当前任务说明
+  questionsThisCall: number;
+  announcements: string[]; // 开始该任务时输出的日志（新的任务类别或轮次开始）
+  itemKey: string;        // 同一内容在各轮中的任务共用，用于收集该内容已生成的问题
+  dependsOn?: number;     // 提示词需要列出上一轮已生成的问题时，上一轮任务在执行列表中的位置
+}
+
+// 生成任务执行阶段的结果，交给提交阶段按顺序处理
+interface GenerationTaskOutcome {
+  workResult: SafeCallResult;   // 开启答案校验或问题分类时包含这些调用的 token 消耗
+  logPath: string;
+  sourceFile: string;
+  contextSources?: string[];
+  verifications?: AnswerVerification[]; // 与解析出的问答一一对应的校验结论
+  classifications?: ({ questionType: QuestionType; difficulty: Difficulty } | undefined)[]; // 分类补充的标注，生成时已带有完整标注的问答为 undefined
+}
+
+// 主任务执行器
+async function runTask(config: any, baseResultDir: string, onProgress: (data: object) => void, isCancelled: () => boolean = () => false, seed: number = generateSeed(), cassette?: Cassette, responseCache?: ResponseCache, costTracker?: RunCostTracker, previousResults: any[] = [], previousDuplicates: DroppedDuplicate[] = []): Promise<{ budgetExhausted?: string } | undefined> {
+  // 总任务数计算
+  const knowledge = await classifyAndCacheKnowledgeContent(onProgress);
+  const { documents, comprehensiveTag, unanswerableTag } = knowledge;
+  const plan = buildTaskPlan(knowledge, config.testConfig);
+  const { QA: qaPlan, Chunk: chunkPlan, Document: documentPlan, Comprehensive: comprehensivePlan, Unanswerable: unanswerablePlan } = plan.categories;
+  const qaTaskTotal = qaPlan.tasks;
+  const chunkTaskTotal = chunkPlan.tasks;
+  const documentTaskTotal = documentPlan.tasks;
+  const comprehensiveTaskTotal = comprehensivePlan.tasks;
+  const unanswerableTaskTotal = unanswerablePlan.tasks;
+
+  if (documents.length === 0 && (config.testConfig.comprehensiveCount > 0 || (config.testConfig.unanswerableCount || 0) > 0)) {
+    onProgress({ type: 'log', message: `知识库中没有文档，跳过综合任务和无法回答任务` });
+  }
+
+  let totalTasks = plan.totalTasks;
+  if (totalTasks === 0) {
+    throw new Error("总任务数为0。请检查知识库文件或在运行界面设置生成数量。");
+  }
+  onProgress({ type: 'log', message: `任务总数计算完成: ${totalTasks} (QA:${qaTaskTotal}, 切块:${chunkTaskTotal}, 文档:${documentTaskTotal}, 综合:${comprehensiveTaskTotal}, 无法回答:${unanswerableTaskTotal})` });
+  console.log(`任务总数: ${totalTasks} (QA:${qaTaskTotal}, 切块:${chunkTaskTotal}, 文档:${documentTaskTotal}, 综合:${comprehensiveTaskTotal}, 无法回答:${unanswerableTaskTotal})`);
+
+  // 主模型在前，备用模型依次在后
+  const modelChain = resolveModelChain(config.project.workModel, config.project.workModelFallbacks);
+  if (modelChain.length === 0) {
+    throw new Error("未配置工作模型。请在项目概况中选择工作模型。");
+  }
+  if (modelChain.length > 1) {
+    onProgress({ type: 'log', message: `工作模型: ${modelChain[0]}，备用模型: ${modelChain.slice(1).join(' → ')}` });
+  }
+
+  // 运行预算：累计消耗达到上限后不再开始新任务，已完成的结果照常保存
+  const budget = parseRunBudget(config.testConfig);
+  if (hasBudget(budget)) {
+    onProgress({ type: 'log', message: `运行预算: token 上限 ${budget.maxTokens?.toLocaleString() ?? '不限'}，费用上限 ${budget.maxCost ?? '不限'}` });
+    if (budget.maxCost !== undefined && !costTracker?.hasPrice(modelChain[0])) {
+      onProgress({ type: 'log', message: `警告: 价格表中没有 ${modelChain[0]} 的价格，费用上限无法生效。` });
+    }
+  }
+  let budgetExhausted: string | undefined; // 达到预算时的原因说明
+
+  // 综合任务和无法回答任务按文档相关度选取多个相互关联的文档作为上下文
+  const relatednessIndex = comprehensivePlan.tasks + unanswerablePlan.tasks > 0 && documents.length > 1 ? new DocumentRelatednessIndex(documents) : undefined;
+
+  // 答案校验：每次生成后由校验模型检查问题能否根据上下文回答、答案是否忠实
+  const verifierChain = config.testConfig?.verifyAnswers ? resolveVerifierChain(config.testConfig, modelChain) : undefined;
+  if (verifierChain) {
+    onProgress({ type: 'log', message: `答案校验: 生成后由 ${verifierChain.join(' → ')} 校验每个问题` });
+  }
+  // 问题分类：结构化输出未给出问题类型或难度的问答（如文本模式），生成后由工作模型补充标注
+  const classifyQuestions = !!config.testConfig?.classifyQuestions;
+  if (classifyQuestions) {
+    onProgress({ type: 'log', message: `问题分类: 生成时未给出问题类型或难度的问题，由 ${modelChain.join(' → ')} 补充标注` });
+  }
+
+  // 继续运行时，results.json 中已有结果（或结果全部作为重复问题删除）的任务直接跳过，任务编号与原运行保持一致
+  const completedTaskIds = new Set<number>([...previousResults, ...previousDuplicates].map(entry => entry.task_id));
+  if (completedTaskIds.size > 0) {
+    onProgress({ type: 'log', message: `跳过已完成的 ${completedTaskIds.size} 个任务` });
+  }
+
+  // 并发执行时先完成的任务等待前面的任务提交，任务编号、结果顺序和进度推送都与顺序执行一致
+  const concurrency = resolveRunConcurrency(config.testConfig, modelChain);
+  if (concurrency.requested > concurrency.effective) {
+    onProgress({ type: 'log', message: `并发数 ${concurrency.requested} 超过提供商允许的上限，已调整为 ${concurrency.effective}` });
+  }
+  if (concurrency.effective > 1) {
+    onProgress({ type: 'log', message: `并发执行: 同时运行 ${concurrency.effective} 个任务` });
+  }
+
+  let totalTokenUsage = costTracker?.getSummary().total.usage.total_tokens || 0; // 累计token消耗，继续运行时包含已完成任务的消耗
+  const allResults: any[] = [...previousResults];
+
+  // 近似重复问题检测：在提交阶段按问题 id 顺序进行，结果与并发数无关
+  const dedup = parseDedupConfig(config.testConfig);
+  const deduplicator = dedup.mode !== 'off' ? new QuestionDeduplicator(dedup) : undefined;
+  const droppedDuplicates: DroppedDuplicate[] = [...previousDuplicates];
+  if (deduplicator) {
+    onProgress({ type: 'log', message: `问题去重: ${dedup.mode === 'drop' ? '删除' : '标记'}${dedup.scope === 'source' ? '同一来源内' : '整个运行中'}相似度达到 ${dedup.threshold} 的问题` });
+    for (const entry of previousResults) {
+      if (!entry.error_category && entry.duplicate_of === undefined) deduplicator.check(entry.id, entry.question, entry.source);
+    }
+  }
+  // 每个内容此前已生成的问题，下一轮生成时列入提示词
+  const previousQuestionsByItem = new Map<string, string[]>();
+  const itemKeysByTaskId = new Map<number, string>();
+  const addPreviousQuestion = (itemKey: string, question: string) =>
+    previousQuestionsByItem.set(itemKey, [...(previousQuestionsByItem.get(itemKey) || []), question]);
+
+  // 按 QA、切块、文档、综合的顺序列出所有任务，任务编号在此确定，与执行顺序和并发数无关
+  const pendingTasks: GenerationTask[] = [];
+  let taskCount = 0;
+  let doneTasks = 0; // 已完成或跳过的任务数，用于计算进度
+  const enqueueGenerationTasks = (
+    taskType: GenerationTaskType,
+    systemPrompt: string,
+    contentArray: any[], // Can be string[] or {name, content}[]
+    userCount: number, // 每个内容需要生成的问题数
+    perCall: number // 每次模型调用生成的问题数
+  ) => {
+    const callsPerItem = Math.ceil(userCount / perCall);
+    // 如果系统提示词为空，直接跳过此类任务
+    if (!systemPrompt.trim()) {
+        onProgress({ type: 'log', message: `警告: [${taskType}] 的系统提示词为空，已跳过该类别的所有 ${contentArray.length * callsPerItem} 个任务。` });
+        // 依然要占用任务编号并推进进度，以保证编号稳定、进度条正确
+        taskCount += contentArray.length * callsPerItem;
+        doneTasks += contentArray.length * callsPerItem;
+        // 通知前端更新进度
+        onProgress({ type: 'update', payload: {
+          activeTaskMessage: `跳过 [${taskType}] 任务 (系统提示词为空)`,
+          progress: (doneTasks / totalTasks) * 100,
+          currentTask: doneTasks,
+          totalTasks: totalTasks
+        } });
+        return;
+    }
+    if (userCount === 0 || contentArray.length === 0) return;
+    let announcements = [`--- 开始执行 [${taskType}] 任务 ---`];
+    // 综合任务和无法回答任务每次选取的文档不同，不列出此前的问题，也就不需要等待上一轮完成
+    const usePromptHint = dedup.promptHint && taskType !== 'Comprehensive' && taskType !== 'Unanswerable';
+    const lastPendingIndexByItem = new Map<number, number>();
+
+    for (let loop = 1; loop <= callsPerItem; loop++) {
+      // 最后一轮只生成剩余的问题数
+      const questionsThisCall = Math.min(perCall, userCount - (loop - 1) * perCall);
+      announcements.push(`[${taskType}] 第 ${loop}/${callsPerItem} 轮，每次调用生成 ${questionsThisCall} 个问题...`);
+
+      for (let i = 0; i < contentArray.length; i++) {
+        taskCount++;
+        const itemKey = `${taskType}:${i}`;
+        itemKeysByTaskId.set(taskCount, itemKey);
+        if (completedTaskIds.has(taskCount)) {
+          doneTasks++;
+          continue;
+        }
+        const dependsOn = usePromptHint ? lastPendingIndexByItem.get(i) : undefined;
+        if (usePromptHint) lastPendingIndexByItem.set(i, pendingTasks.length);
+        pendingTasks.push({
+          id: taskCount,
+          taskType,
+          systemPrompt,
+          item: contentArray[i],
+          taskMessage: `[${taskType}] ${i + 1}/${contentArray.length} (第${loop}轮)`,
+          questionsThisCall,
+          announcements,
+          itemKey,
+          dependsOn,
+        });
+        announcements = [];
+      }
+    }
+  };
+  enqueueGenerationTasks('QA', config.project.qaSystemPrompt, qaPlan.items, qaPlan.questionCount, qaPlan.perCall);
+  enqueueGenerationTasks('Chunk', config.project.chunkSystemPrompt, chunkPlan.items, chunkPlan.questionCount, chunkPlan.perCall);
+  enqueueGenerationTasks('Document', config.project.documentSystemPrompt, documentPlan.items, documentPlan.questionCount, documentPlan.perCall);
+  // 综合任务没有逐项内容，视为单个内容需要生成 comprehensiveCount 个问题
+  const comprehensiveDummyContent = comprehensivePlan.itemCount > 0 ? [{}] : [];
+  enqueueGenerationTasks('Comprehensive', config.project.comprehensiveSystemPrompt, comprehensiveDummyContent, comprehensivePlan.questionCount, comprehensivePlan.perCall);
+  // 无法回答任务排在最后，较早的运行继续时任务编号不变；项目未设置提示词时使用默认提示词
+  const unanswerableDummyContent = unanswerablePlan.itemCount > 0 ? [{}] : [];
+  enqueueGenerationTasks('Unanswerable', resolveUnanswerableSystemPrompt(config.project), unanswerableDummyContent, unanswerablePlan.questionCount, unanswerablePlan.perCall);
+  if (dedup.promptHint) {
+    for (const entry of previousResults) {
+      const itemKey = itemKeysByTaskId.get(entry.task_id);
+      if (itemKey && !entry.error_category && entry.duplicate_of === undefined) addPreviousQuestion(itemKey, entry.question);
+    }
+  }
+
+  // 执行阶段：构造上下文并调用模型，可并发
+  const executeGenerationTask = async (task: GenerationTask, _index: number, waitForCommit: (index: number) => Promise<void>): Promise<GenerationTaskOutcome> => {
+    for (const message of task.announcements) {
+      onProgress({ type: 'log', message });
+    }
+    // 提示词要列出上一轮生成的问题，需等上一轮任务提交后再构造
+    if (task.dependsOn !== undefined) await waitForCommit(task.dependsOn);
+    const { id: taskId, taskType, systemPrompt, item, taskMessage, questionsThisCall } = task;
+    const loopDir = join(baseResultDir, taskId.toString());
+    await mkdir(loopDir, { recursive: true });
+    const logPath = join(loopDir, 'log.txt');
+    await ensureLogFileExists(logPath);
+
+    const structuredOutput = !!config.project.workModelParams?.structuredOutput;
+    // 构造用户指令和上下文
+    let userMessage = '';
+    let contextSources: string[] | undefined; // 综合任务实际放入上下文的来源文件
+    switch (taskType) {
+      case 'QA':
+      case 'Chunk':
+      case 'Document':
+        userMessage = item.content;
+        break;
+      case 'Comprehensive':
+      case 'Unanswerable': {
+        // 综合任务的上下文：以一个文档为起点选取相关的多个文档，按模型上下文窗口计算 token 预算，放入完整的文档或章节；
+        // 无法回答任务以同样的方式选取内容，作为设计相近话题和错误前提的依据
+        const instruction = taskType === 'Unanswerable' ? UNANSWERABLE_INSTRUCTION : '';
+        const reservedTokens = estimateMessagesTokens([{ role: 'user', content: instruction + (questionsThisCall > 1 ? buildBatchInstruction(questionsThisCall, structuredOutput) : '') }], systemPrompt);
+        // 每个任务从随机的文档出发，随机数由运行种子和任务编号决定；录制/回放时起始位置也一并记录
+        const startKey = `${taskType.toLowerCase()}-start:${taskId}`;
+        const pickStartIndex = () => Math.floor(createSeededRandom(deriveSeed(seed, startKey))() * documents.length);
+        const startIndex = cassette ? cassette.captureValue(startKey, pickStartIndex) : pickStartIndex();
+        const { packed, selectedDocuments, tokenBudget } = packTaskContext(documents, relatednessIndex, startIndex, modelChain, reservedTokens, config.project.workModelParams?.maxTokens?.[0] || 8192);
+        userMessage = packed.text;
+        contextSources = packed.sources;
+        if (taskType === 'Comprehensive' && packed.sources.length > 1) {
+          userMessage += `\n\n---\n以上内容来自 ${packed.sources.length} 个相关文档，请生成需要综合其中至少两个文档的信息才能回答的问题。`;
+        }
+        onProgress({ type: 'log', message: `[${taskType}] 任务 ${taskId} 选取文档: ${packed.sources.join(', ') || '无'}` });
+        if (taskType === 'Comprehensive' && packed.sources.length < 2) {
+          onProgress({ type: 'log', message: `警告: 综合任务 ${taskId} 的上下文只有 ${packed.sources.length} 个文档（选中 ${selectedDocuments.length} 个），生成的问题可能不需要跨文档综合` });
+        }
+        console.log(`[INFO] ${taskType} context packed: ${packed.sources.length}/${documents.length} documents, ~${packed.tokens}/${tokenBudget} tokens, start index: ${startIndex}`);
+        break;
+      }
+    }
+
+    // 保存提供给模型的内容，答案校验（包括之后对运行结果单独校验）以此为依据
+    const contextText = userMessage;
+    await writeFile(join(loopDir, CONTEXT_FILE_NAME), contextText, 'utf-8');
+
+    // 无法回答任务的指令不属于参考内容，放在保存的上下文之后
+    if (taskType === 'Unanswerable') {
+      userMessage += UNANSWERABLE_INSTRUCTION;
+    }
+    if (dedup.promptHint && taskType !== 'Comprehensive' && taskType !== 'Unanswerable') {
+      userMessage += buildPreviousQuestionsHint(previousQuestionsByItem.get(task.itemKey) || []);
+    }
+    if (questionsThisCall > 1) {
+      userMessage += buildBatchInstruction(questionsThisCall, structuredOutput);
+    }
+    const finalUserMessage = userMessage;
+    const sourceFile = taskType === 'Comprehensive' ? '综合文档' : taskType === 'Unanswerable' ? UNANSWERABLE_SOURCE : item.source;
+    onProgress({ type: 'update', payload: { activeTaskMessage: taskMessage } });
+
+    const workModelConfig = config.project.workModelParams || {};
+    const workOptions: LlmGenerationOptions = {
+      stream: workModelConfig.streamingEnabled || false, // 使用用户配置的流式设置
+      timeoutMs: 90000,
+      maxOutputTokens: workModelConfig.maxTokens?.[0] || 8192,
+      temperature: workModelConfig.temperature?.[0] || 1.0,
+      topP: workModelConfig.topP?.[0] || 1.0,
+      presencePenalty: workModelConfig.presencePenalty?.[0] || 0.0,
+      frequencyPenalty: workModelConfig.frequencyPenalty?.[0] || 0.0, // 词汇丰富度,默认0，范围-2.0-2.0,值越大，用词越丰富多样；值越低，用词更朴实简单
+      reasoningEffort: workModelConfig.intelligentAdjustment ? REASONING_EFFORT_MAP[workModelConfig.reasoningEffort] : undefined, // 仅在开启推理强度调整时传递
+      systemPrompt: systemPrompt, // 系统提示词
+      seed: deriveSeed(seed, `task:${taskId}`), // 每个任务使用由运行种子派生的 seed，同一内容的多轮生成不会得到相同结果
+      seedKey: `task:${taskId}`,
+      outputSchema: structuredOutput ? (questionsThisCall > 1 ? buildBatchQASchema(questionsThisCall) : QA_JSON_SCHEMA) : undefined, // 结构化输出模式
+      logPath: logPath,  // 传递日志输出路径
+      cassette: cassette, // 录制/回放磁带
+      responseCache: responseCache, // 响应缓存
+      // 触发提供商限流时，在运行页面显示排队等待的剩余时间
+      onRateLimitWait: (waitMs, provider) => {
+        const activeTaskMessage = waitMs > 0 ? `${taskMessage} - ${provider} 已达速率限制，排队等待约 ${Math.ceil(waitMs / 1000)} 秒...` : taskMessage;
+        onProgress({ type: 'update', payload: { activeTaskMessage } });
+      },
+    };
+
+    // 流式模式下节流推送部分生成内容，让运行页面实时显示正在生成的问题；并发执行时多个任务的部分内容会相互覆盖，不推送
+    let lastStreamEmit = 0;
+    const onStreamText = concurrency.effective > 1 ? undefined : (partialText: string) => {
+      const now = Date.now();
+      if (now - lastStreamEmit < STREAM_EMIT_INTERVAL_MS) return;
+      lastStreamEmit = now;
+      const partial = extractPartialQuestionAnswer(partialText);
+      try {
+        onProgress({ type: 'state_update', payload: { questionId: sourceFile, questionText: partial.question || '生成中...', modelAnswer: partial.answer, isStreaming: true } });
+      } catch (e) {
+        // 任务已取消时推送会抛错，这里忽略，由模型调用结束后的进度推送统一处理取消
+      }
+    };
+
+    const workMessages: ChatMessage[] = [{ role: 'user', content: finalUserMessage }];
+    // 解析不出任何问答时视为输出格式错误，按重试策略重新生成
+    const validateQA = (result: NonStreamingResult) =>
+      parseGeneratedQAList(result.content, result.object).length === 0 ? '无法从模型回复中解析出问题和答案' : undefined;
+    let workResult = await safeModelCall(modelChain, workMessages, workOptions, undefined, onStreamText, validateQA);
+
+    let verifications: AnswerVerification[] | undefined;
+    let classifications: GenerationTaskOutcome['classifications'];
+    const parsedList = workResult.success && workResult.content ? parseGeneratedQAList(workResult.content, workResult.object).slice(0, questionsThisCall) : [];
+    if (classifyQuestions && parsedList.length > 0) {
+      classifications = [];
+      for (let n = 0; n < parsedList.length; n++) {
+        if (parsedList[n].questionType && parsedList[n].difficulty) {
+          classifications.push(undefined);
+          continue;
+        }
+        onProgress({ type: 'update', payload: { activeTaskMessage: `${taskMessage} - 标注第 ${n + 1}/${parsedList.length} 个问题...` } });
+        const { classification, result } = await classifyQuestion(modelChain, parsedList[n].question, parsedList[n].answer, {
+          seed: deriveSeed(seed, `classify:${taskId}:${n}`),
+          seedKey: `classify:${taskId}:${n}`,
+          logPath,
+          cassette,
+          responseCache,
+        });
+        classifications.push(classification);
+        workResult = mergeCallUsage(workResult, result);
+      }
+    }
+    // 无法回答的问题不校验，原因同 executeVerification
+    if (verifierChain && parsedList.length > 0 && taskType !== 'Unanswerable') {
+      verifications = [];
+      for (let n = 0; n < parsedList.length; n++) {
+        onProgress({ type: 'update', payload: { activeTaskMessage: `${taskMessage} - 校验第 ${n + 1}/${parsedList.length} 个问题...` } });
+        const { verification, result } = await verifyAnswer(verifierChain, contextText, parsedList[n].question, parsedList[n].answer, {
+          seed: deriveSeed(seed, `verify:${taskId}:${n}`),
+          seedKey: `verify:${taskId}:${n}`,
+          logPath,
+          cassette,
+          responseCache,
+        });
+        verifications.push(verification);
+        workResult = mergeCallUsage(workResult, result);
+      }
+    }
+    return { workResult, logPath, sourceFile, contextSources, verifications, classifications };
+  };
+
+  // 提交阶段：按任务编号顺序记录费用、写日志和 results.json、推送进度，并检查预算
+  const commitGenerationTask = async ({ workResult, logPath, sourceFile, contextSources, verifications, classifications }: GenerationTaskOutcome, task: GenerationTask): Promise<boolean> => {
+    const { id: taskId, taskType, item, questionsThisCall } = task;
+    if (workResult.model && workResult.model !== modelChain[0]) {
+      onProgress({ type: 'log', message: workResult.success
+        ? `任务 ${taskId}: 主模型 ${modelChain[0]} 调用失败，已由备用模型 ${workResult.model} 完成`
+        : `任务 ${taskId}: 主模型及所有备用模型均调用失败` });
+    }
+    let workDurationUsage = workResult.durationUsage ? Math.round(workResult.durationUsage.total_duration / 1e6) : 0;
+
+    if (workResult.tokenUsage) {
+      totalTokenUsage += workResult.tokenUsage.total_tokens;
+      onProgress({ type: 'token_usage', tokenUsage: totalTokenUsage });
+    }
+    // 按实际调用的模型估算本任务的费用，汇总写入 cost.json 并推送到运行页面
+    const taskCost = costTracker ? costTracker.recordTask(taskId, taskType, workResult.usageByModel || {}) : undefined;
+    if (costTracker) {
+      await costTracker.save(baseResultDir);
+      onProgress({ type: 'cost_update', cost: costTracker.getSummary() });
+    }
+
+    // 一次调用可能返回多组问答，每组成为 results.json 中的一条独立记录
+    const generatedEntries: { question: string; answer: string; details: { key_points?: string[]; difficulty?: string; question_type?: string; evidence?: string; error_category?: LlmErrorCategory; verification?: AnswerVerification } }[] = [];
+    // 失败的记录在问题中标明错误类别，并保存 error_category 字段
+    const failedQuestion = (category: LlmErrorCategory) => `生成失败 [${ERROR_CATEGORY_LABELS[category]}]`;
+
+    if (workResult.success && workResult.content) {
+      const parsedList = parseGeneratedQAList(workResult.content, workResult.object).slice(0, questionsThisCall);
+      if (parsedList.length < questionsThisCall) {
+        onProgress({ type: 'log', message: `警告: [${taskType}] 任务 ${taskId} 要求生成 ${questionsThisCall} 个问题，实际解析出 ${parsedList.length} 个。` });
+      }
+      parsedList.forEach((parsed, index) => {
+        // 生成时给出的标注优先，缺少的由分类补充
+        const difficulty = parsed.difficulty || classifications?.[index]?.difficulty;
+        const questionType = parsed.questionType || classifications?.[index]?.questionType;
+        generatedEntries.push({
+          question: parsed.question || "生成失败",
+          answer: parsed.answer || workResult.error || "N/A",
+          details: {
+            ...(parsed.keyPoints && { key_points: parsed.keyPoints }),
+            ...(difficulty && { difficulty }),
+            ...(questionType && { question_type: questionType }),
+            ...(parsed.evidence && { evidence: parsed.evidence }),
+            ...(verifications?.[index] && { verification: verifications[index] }),
+          },
+        });
+      });
+      if (generatedEntries.length === 0) {
+        // 问题和答案都找不到，则将原始内容作为答案，方便调试
+        generatedEntries.push({ question: failedQuestion('malformed_output'), answer: workResult.content, details: { error_category: 'malformed_output' } });
+      }
+    } else {
+      const category = workResult.errorCategory || 'unknown';
+      // 输出格式错误时保留模型的原始回复，方便调试
+      generatedEntries.push({ question: failedQuestion(category), answer: workResult.content || workResult.error || "N/A", details: { error_category: category } });
+    }
+
+    const replyForLog = generatedEntries.length === 1
+      ? generatedEntries[0].answer
+      : generatedEntries.map((entry, index) => `[${index + 1}] Question: ${entry.question}\nAnswer: ${entry.answer}`).join('\n\n');
+    await appendToLogFile(logPath, `--- 模型回复 ---\n${replyForLog}\n--- Stats ---\nToken 消耗: ${workResult.tokenUsage?.total_tokens || 0}${taskCost !== undefined ? ` | 预估费用: ${formatCost(taskCost, costTracker!.getSummary().currency)}` : ''} | 耗时统计: ${workDurationUsage}ms\n\n`);
+    const lastEntry = generatedEntries[generatedEntries.length - 1];
+    onProgress({ type: 'state_update', payload: { questionId: sourceFile, questionText: lastEntry.question, modelAnswer: lastEntry.answer, isStreaming: false, model: workResult.model } });
+
+    let droppedCount = 0;
+    for (const entry of generatedEntries) {
+      const id = allResults.length + 1;
+      // 生成失败的记录不参与去重
+      const duplicate = deduplicator && !entry.details.error_category ? deduplicator.check(id, entry.question, sourceFile) : undefined;
+      if (duplicate) {
+        onProgress({ type: 'log', message: `任务 ${taskId}: 问题与第 ${duplicate.id} 题相似（${duplicate.similarity.toFixed(2)}），${dedup.mode === 'drop' ? '已删除' : '已标记为重复'}` });
+        if (dedup.mode === 'drop') {
+          droppedDuplicates.push({ task_id: taskId, source: sourceFile, question: entry.question, answer: entry.answer, duplicate_of: duplicate.id, similarity: duplicate.similarity });
+          droppedCount++;
+          continue;
+        }
+      } else if (!entry.details.error_category) {
+        addPreviousQuestion(task.itemKey, entry.question);
+      }
+      const resultEntry = {
+        id,
+        tag: taskType === 'Comprehensive' ? comprehensiveTag : taskType === 'Unanswerable' ? unanswerableTag : item.tag,
+        source: sourceFile,
+        question: entry.question,
+        answer: entry.answer,
+        score: 10,
+        ...entry.details,
+        ...(duplicate && { duplicate_of: duplicate.id }), // 与之近似重复的问题 id
+        ...(taskType === 'Unanswerable' && !entry.details.error_category && { answerable: false }), // 知识库无法回答，被测系统应拒答，评测时单独计分
+        ...(contextSources && { sources: contextSources }), // 综合任务上下文包含的来源文件，用于核对问题是否跨文档
+        model: workResult.model, // 实际生成该问题的模型，发生备用切换时与主模型不同
+        task_id: taskId // 产生该问题的任务编号，对应结果目录下的任务子目录
+      };
+      allResults.push(resultEntry);
+    }
+    await writeFile(join(baseResultDir, 'results.json'), JSON.stringify(allResults, null, 2), 'utf-8');
+    if (droppedCount > 0) {
+      await writeDroppedDuplicates(baseResultDir, droppedDuplicates);
+    }
+
+    doneTasks++;
+    onProgress({ type: 'update', payload: { progress: (doneTasks / totalTasks) * 100, currentTask: doneTasks, totalTasks: totalTasks } });
+
+    // 并发执行时达到预算后已开始的任务仍会提交，只在首次达到时提示
+    if (!budgetExhausted) {
+      budgetExhausted = checkBudget(budget, totalTokenUsage, costTracker?.getSummary().total.cost);
+      if (budgetExhausted) {
+        onProgress({ type: 'log', message: `${budgetExhausted}，停止开始新任务。` });
+      }
+    }
+    return !budgetExhausted;
+  };
+
+  await runOrderedPool(pendingTasks, concurrency.effective, executeGenerationTask, commitGenerationTask, isCancelled);
+  return { budgetExhausted };
+}
@@ -0,0 +1,247 @@
+// lib/generation/run-manifest.ts
+import { createHash } from 'crypto';
+import { readFile, readdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { TokenUsage } from '@/lib/llm/types';
+import { resolveModelChain } from '@/lib/llm/model-chain';
+import { getKnowledgeDir } from './knowledge-loader';
+import { countVerdicts } from './answer-verifier';
+import { countDistribution } from './question-classifier';
+import { resolveUnanswerableSystemPrompt } from './unanswerable';
+
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+/**
+ * 运行状态：开始时为 running，结束时更新为实际的结束方式
+ */
+export type RunManifestStatus = 'running' | 'completed' | 'budget_exhausted' | 'cancelled' | 'failed';
+
+/**
+ * 运行时使用的知识库文件，记录内容哈希以便确认之后文件是否被修改过
+ */
+export interface KnowledgeFileRecord {
+  name: string;
+  size: number;   // 字节数
+  sha256: string;
+}
+
+/**
+ * 运行结束时的统计
+ */
+export interface RunManifestSummary {
+  tasks: number;                                  // 已完成的任务数
+  questions: number;                              // results.json 中的问题数
+  failed_questions: number;                       // 生成失败的问题数
+  failures_by_category: Record<string, number>;   // 按错误类别统计的失败数
+  token_usage: TokenUsage;
+  cost: number;
+  currency: string;
+  verdicts?: Record<string, number>;              // 按答案校验结论统计的问题数，未校验时没有该字段
+  question_types?: Record<string, number>;        // 按问题类型统计的问题数，问题都没有标注时没有该字段
+  difficulties?: Record<string, number>;          // 按难度统计的问题数
+}
+
+/**
+ * 运行目录下 manifest.json 的内容，记录复现一次运行所需的信息
+ */
+export interface RunManifest {
+  run_id: string;     // 运行目录名（YYMMDD_HHMMSS）
+  created_at: string;
+  app_version: string;
+  status: RunManifestStatus;
+  seed: number;       // 运行种子，驱动运行中所有的随机选择，并作为 seed 参数传给支持的提供商
+  seed_pinned?: boolean; // 运行种子是否由用户指定，随机生成的种子不计入响应缓存指纹；较早的运行没有该字段
+  models: {
+    work_model: string;
+    fallback_models: string[];
+    params: Record<string, unknown>;  // 模型参数面板中的设置
+  };
+  prompts: {
+    qa: string;
+    chunk: string;
+    document: string;
+    comprehensive: string;
+    unanswerable?: string; // 实际使用的无法回答系统提示词（含默认提示词），较早的运行没有该字段
+  };
+  test_config: Record<string, unknown>; // 运行页面提交的生成数量、预算等设置
+  knowledge_files: KnowledgeFileRecord[];
+  resumed_at?: string[]; // 每次继续运行的时间
+  // 以下字段在运行结束时写入
+  finished_at?: string;
+  duration_ms?: number;
+  error?: string;     // status 为 failed 时的错误信息
+  summary?: RunManifestSummary;
+}
+
+/**
+ * 读取 package.json 中的应用版本号
+ */
+async function readAppVersion(): Promise<string> {
+  try {
+    const packageJson = JSON.parse(await readFile(join(process.cwd(), 'package.json'), 'utf-8'));
+    return packageJson.version || 'unknown';
+  } catch (error) {
+    return 'unknown';
+  }
+}
+
+/**
+ * 计算知识库目录下每个文件的内容哈希，目录不存在时返回空列表
+ */
+async function hashKnowledgeFiles(): Promise<KnowledgeFileRecord[]> {
+  const knowledgeDir = getKnowledgeDir();
+  let fileNames: string[];
+  try {
+    fileNames = (await readdir(knowledgeDir)).sort();
+  } catch (error) {
+    return [];
+  }
+  const records: KnowledgeFileRecord[] = [];
+  for (const name of fileNames) {
+    const content = await readFile(join(knowledgeDir, name));
+    records.push({ name, size: content.length, sha256: createHash('sha256').update(content).digest('hex') });
+  }
+  return records;
+}
+
+/**
+ * 根据运行配置生成运行开始时的 manifest
+ * @param config 运行页面提交的配置（/api/run-task 的请求体）
+ * @param seedPinned 运行种子是否由用户指定
+ */
+export async function createRunManifest(runId: string, config: any, seed: number, seedPinned: boolean): Promise<RunManifest> {
+  const project = config.project || {};
+  const [workModel, ...fallbackModels] = resolveModelChain(project.workModel, project.workModelFallbacks);
+  return {
+    run_id: runId,
+    created_at: new Date().toISOString(),
+    app_version: await readAppVersion(),
+    status: 'running',
+    seed,
+    seed_pinned: seedPinned,
+    models: {
+      work_model: workModel || '',
+      fallback_models: fallbackModels,
+      params: project.workModelParams || {},
+    },
+    prompts: {
+      qa: project.qaSystemPrompt || '',
+      chunk: project.chunkSystemPrompt || '',
+      document: project.documentSystemPrompt || '',
+      comprehensive: project.comprehensiveSystemPrompt || '',
+      unanswerable: resolveUnanswerableSystemPrompt(project),
+    },
+    test_config: config.testConfig || {},
+    knowledge_files: await hashKnowledgeFiles(),
+  };
+}
+
+/**
+ * 运行结束时更新 manifest：写入结束状态、耗时，并从 results.json 统计问题数和失败数
+ * @param stats 费用统计中的已完成任务数、token 消耗和费用
+ */
+export async function finishRunManifest(
+  runDir: string,
+  manifest: RunManifest,
+  status: RunManifestStatus,
+  stats: { tasks: number; token_usage: TokenUsage; cost: number; currency: string },
+  error?: string
+): Promise<RunManifest> {
+  const results = await readRunResults(runDir);
+  const failuresByCategory: Record<string, number> = {};
+  for (const entry of results) {
+    if (entry.error_category) {
+      failuresByCategory[entry.error_category] = (failuresByCategory[entry.error_category] || 0) + 1;
+    }
+  }
+
+  const verdicts = countVerdicts(results);
+  const distribution = countDistribution(results);
+
+  const finishedAt = new Date();
+  const finished: RunManifest = {
+    ...manifest,
+    status,
+    finished_at: finishedAt.toISOString(),
+    duration_ms: finishedAt.getTime() - new Date(manifest.created_at).getTime(),
+    ...(error && { error }),
+    summary: {
+      tasks: stats.tasks,
+      questions: results.length,
+      failed_questions: Object.values(failuresByCategory).reduce((sum, count) => sum + count, 0),
+      failures_by_category: failuresByCategory,
+      token_usage: stats.token_usage,
+      cost: stats.cost,
+      currency: stats.currency,
+      ...(verdicts && { verdicts }),
+      ...distribution,
+    },
+  };
+  await writeRunManifest(runDir, finished);
+  return finished;
+}
+
+/**
+ * 读取运行目录下的 results.json，尚未完成任何任务时返回空列表
+ */
+export async function readRunResults(runDir: string): Promise<any[]> {
+  try {
+    return JSON.parse(await readFile(join(runDir, 'results.json'), 'utf-8'));
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * 未完成（中断、取消、失败或达到预算）的运行可以继续
+ */
+export function isRunResumable(manifest: RunManifest): boolean {
+  return manifest.status !== 'completed';
+}
+
+/**
+ * 由 manifest 还原出运行时的配置（/api/run-task 的请求体格式），继续运行时沿用原运行的设置
+ * @param budgetConfig 继续运行请求中的 testConfig，预算使用本次请求的设置，以便达到预算的运行提高预算后继续；
+ *                     并发数不影响生成结果，也使用本次请求的设置
+ */
+export function buildRunConfigFromManifest(manifest: RunManifest, budgetConfig?: { tokenBudget?: number; costBudget?: number; concurrency?: number }) {
+  return {
+    project: {
+      workModel: manifest.models.work_model,
+      workModelFallbacks: manifest.models.fallback_models,
+      workModelParams: manifest.models.params,
+      qaSystemPrompt: manifest.prompts.qa,
+      chunkSystemPrompt: manifest.prompts.chunk,
+      documentSystemPrompt: manifest.prompts.document,
+      comprehensiveSystemPrompt: manifest.prompts.comprehensive,
+      unanswerableSystemPrompt: manifest.prompts.unanswerable,
+    },
+    testConfig: { ...manifest.test_config, seed: manifest.seed, tokenBudget: budgetConfig?.tokenBudget, costBudget: budgetConfig?.costBudget, concurrency: budgetConfig?.concurrency },
+  };
+}
+
+/**
+ * 对比知识库文件与 manifest 中记录的哈希
+ * @returns 新增、删除或内容已修改的文件名
+ */
+export async function findChangedKnowledgeFiles(manifest: RunManifest): Promise<string[]> {
+  const current = new Map((await hashKnowledgeFiles()).map(file => [file.name, file.sha256]));
+  const recorded = new Map(manifest.knowledge_files.map(file => [file.name, file.sha256]));
+  const names = new Set([...current.keys(), ...recorded.keys()]);
+  return Array.from(names).filter(name => current.get(name) !== recorded.get(name));
+}
+
+export async function writeRunManifest(runDir: string, manifest: RunManifest) {
+  await writeFile(join(runDir, MANIFEST_FILE_NAME), JSON.stringify(manifest, null, 2), 'utf-8');
+}
+
+/**
+ * 读取运行目录下的 manifest.json，不存在或已损坏时返回 undefined
+ */
+export async function readRunManifest(runDir: string): Promise<RunManifest | undefined> {
+  try {
+    return JSON.parse(await readFile(join(runDir, MANIFEST_FILE_NAME), 'utf-8'));
+  } catch (error) {
+    return undefined;
+  }
+}
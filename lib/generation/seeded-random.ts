@@ -0,0 +1,44 @@
+// lib/generation/seeded-random.ts
+import { createHash, randomInt } from 'crypto';
+
+// 种子取值范围：32 位无符号整数，各提供商的 seed 参数都能接受
+const MAX_SEED = 0xffffffff;
+
+/**
+ * 生成一个新的运行种子
+ */
+export function generateSeed(): number {
+  return randomInt(0, MAX_SEED);
+}
+
+/**
+ * 解析运行页面提交的种子，空值或非法值返回 undefined
+ */
+export function parseSeed(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const seed = Number(value);
+  return Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED ? seed : undefined;
+}
+
+/**
+ * 由运行种子和用途派生出子种子。同一运行中每个随机选择使用各自的子种子，
+ * 结果只取决于运行种子和用途（如任务编号），与执行顺序无关。
+ * @param key 用途标识，如 "comprehensive-start:12"
+ */
+export function deriveSeed(seed: number, key: string): number {
+  return createHash('sha256').update(`${seed}:${key}`).digest().readUInt32BE(0);
+}
+
+/**
+ * mulberry32 伪随机数生成器，返回 [0, 1) 之间的数，可替代 Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,67 @@
+// lib/generation/task-plan.ts
+import { KnowledgeContent, KnowledgeItem } from './knowledge-loader';
+
+/**
+ * 生成任务的类别
+ */
+export type GenerationTaskType = 'QA' | 'Chunk' | 'Document' | 'Comprehensive' | 'Unanswerable';
+
+export const GENERATION_TASK_TYPES: GenerationTaskType[] = ['QA', 'Chunk', 'Document', 'Comprehensive', 'Unanswerable'];
+
+/**
+ * 运行页面提交的生成数量设置（config.testConfig）
+ */
+export interface GenerationTestConfig {
+  qaCount: number;
+  chunkCount: number;
+  documentCount: number;
+  comprehensiveCount: number;
+  unanswerableCount?: number; // 较早的运行没有该设置，视为 0
+  qaPerCall?: number;
+  chunkPerCall?: number;
+  documentPerCall?: number;
+  comprehensivePerCall?: number;
+  unanswerablePerCall?: number;
+}
+
+/**
+ * 单个类别的任务安排
+ */
+export interface CategoryPlan {
+  taskType: GenerationTaskType;
+  items: KnowledgeItem[];   // 需要逐项生成问题的内容，综合任务和无法回答任务为空
+  itemCount: number;        // 内容数量，综合任务和无法回答任务视为单个内容
+  questionCount: number;    // 每个内容需要生成的问题数
+  perCall: number;          // 每次模型调用生成的问题数，一个任务对应一次模型调用
+  callsPerItem: number;     // 每个内容需要调用模型的次数
+  tasks: number;            // 该类别的任务总数
+}
+
+export interface TaskPlan {
+  categories: Record<GenerationTaskType, CategoryPlan>;
+  totalTasks: number;
+}
+
+function planCategory(taskType: GenerationTaskType, items: KnowledgeItem[], itemCount: number, questionCount: number, perCallSetting?: number): CategoryPlan {
+  const perCall = Math.max(1, perCallSetting || 1);
+  const callsPerItem = Math.ceil(questionCount / perCall);
+  return { taskType, items, itemCount, questionCount, perCall, callsPerItem, tasks: itemCount * callsPerItem };
+}
+
+/**
+ * 根据知识库内容和生成数量设置计算各类别的任务数
+ */
+export function buildTaskPlan(knowledge: KnowledgeContent, testConfig: GenerationTestConfig): TaskPlan {
+  const { qaPairs, chunks, documents } = knowledge;
+  const categories: Record<GenerationTaskType, CategoryPlan> = {
+    QA: planCategory('QA', qaPairs, qaPairs.length, testConfig.qaCount, testConfig.qaPerCall),
+    Chunk: planCategory('Chunk', chunks, chunks.length, testConfig.chunkCount, testConfig.chunkPerCall),
+    Document: planCategory('Document', documents, documents.length, testConfig.documentCount, testConfig.documentPerCall),
+    // 综合任务没有逐项内容，视为单个内容需要生成 comprehensiveCount 个问题；没有文档时无法组织上下文，不安排任务
+    Comprehensive: planCategory('Comprehensive', [], testConfig.comprehensiveCount > 0 && documents.length > 0 ? 1 : 0, testConfig.comprehensiveCount, testConfig.comprehensivePerCall),
+    // 无法回答任务同样从整个知识库选取上下文，视为单个内容
+    Unanswerable: planCategory('Unanswerable', [], (testConfig.unanswerableCount || 0) > 0 && documents.length > 0 ? 1 : 0, testConfig.unanswerableCount || 0, testConfig.unanswerablePerCall),
+  };
+  const totalTasks = GENERATION_TASK_TYPES.reduce((sum, taskType) => sum + categories[taskType].tasks, 0);
+  return { categories, totalTasks };
+}
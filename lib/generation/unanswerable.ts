@@ -0,0 +1,35 @@
+// lib/generation/unanswerable.ts
+
+// 无法回答问题的来源，这类问题没有对应的知识库文件
+export const UNANSWERABLE_SOURCE = '知识库外';
+
+// 无法回答问题的标准答案应表达的意思，评测时据此判断被测系统是否正确拒答
+export const UNANSWERABLE_EXPECTED_ANSWER = '知识库中没有相关信息，无法回答该问题。';
+
+/**
+ * 项目未设置“无法回答系统提示词”时使用的默认提示词
+ */
+export const DEFAULT_UNANSWERABLE_SYSTEM_PROMPT = `你是一名 RAG 系统测试题设计者，需要设计知识库无法回答的问题，用来检验系统能否拒绝回答而不是编造答案。
+你会收到知识库中的部分内容。请基于这些内容设计看起来相关、但无法根据知识库回答的问题，例如：
+- 相近话题：询问内容中提到的对象在内容未涉及的方面（如未提及的版本、参数、时间、人物）；
+- 错误前提：问题中包含与内容相矛盾或内容中不存在的前提。
+问题要自然、具体，像真实用户会问的问题，不要直接说明问题无法回答。
+标准答案说明知识库中没有相关信息，如“${UNANSWERABLE_EXPECTED_ANSWER}”；错误前提的问题可以同时指出前提与知识库不符。
+
+按以下格式输出：
+Question: 问题
+Answer: 标准答案`;
+
+/**
+ * 追加在上下文之后的指令，自定义的系统提示词也能得到一致的任务说明
+ */
+export const UNANSWERABLE_INSTRUCTION = `\n\n---\n以上内容摘自知识库。请生成看起来与以上内容相关、但无法根据知识库回答的问题，标准答案说明知识库中没有相关信息。`;
+
+/**
+ * 无法回答问题的系统提示词，项目未设置时使用默认提示词
+ * @param project 项目配置（config.project）
+ */
+export function resolveUnanswerableSystemPrompt(project: any): string {
+  const prompt = typeof project?.unanswerableSystemPrompt === 'string' ? project.unanswerableSystemPrompt.trim() : '';
+  return prompt || DEFAULT_UNANSWERABLE_SYSTEM_PROMPT;
+}
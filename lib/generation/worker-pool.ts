@@ -0,0 +1,73 @@
+// lib/generation/worker-pool.ts
+
+/**
+ * 以固定并发数执行一组任务，执行结果严格按任务顺序提交。
+ * 任务按顺序开始，先完成的任务等待排在前面的任务提交后再提交，
+ * 因此提交阶段的写文件、进度推送与顺序执行时完全一致。
+ * @param items 按顺序排列的任务
+ * @param concurrency 同时执行的任务数，至少为 1
+ * @param execute 执行任务（如调用模型），可并发；需要用到前面任务的结果时，通过 waitForCommit 等待该任务提交（只能等待排在前面的任务）
+ * @param commit 按顺序提交执行结果，不会并发；返回 false 时不再开始新任务，已开始的任务仍会完成并提交
+ * @param shouldStop 开始每个任务前检查，返回 true 时不再开始新任务
+ * @throws 任一任务执行或提交出错时，等待已开始的任务结束后抛出第一个错误
+ */
+export async function runOrderedPool<T, R>(
+  items: T[],
+  concurrency: number,
+  execute: (item: T, index: number, waitForCommit: (index: number) => Promise<void>) => Promise<R>,
+  commit: (result: R, item: T, index: number) => Promise<boolean | void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let nextIndex = 0;   // 下一个要开始的任务
+  let nextCommit = 0;  // 下一个要提交的任务，在此之前的任务都已提交
+  let stopped = false;
+  let failure: { error: unknown } | undefined;
+  const finished = new Map<number, R>(); // 已完成、等待提交的结果
+  let commitChain: Promise<void> = Promise.resolve();
+  const waiters = new Map<number, { resolve: () => void; reject: (error: unknown) => void }[]>(); // 等待某个任务提交的回调
+
+  const waitForCommit = (index: number) => {
+    if (index < nextCommit) return Promise.resolve();
+    if (failure) return Promise.reject(failure.error);
+    return new Promise<void>((resolve, reject) => {
+      waiters.set(index, [...(waiters.get(index) || []), { resolve, reject }]);
+    });
+  };
+
+  // 出错后排在后面的任务不会再提交，通知所有等待者
+  const fail = (error: unknown) => {
+    failure ??= { error };
+    for (const list of waiters.values()) list.forEach(waiter => waiter.reject(failure!.error));
+    waiters.clear();
+  };
+
+  // 提交所有已连续完成的结果
+  const flush = async () => {
+    while (!failure && finished.has(nextCommit)) {
+      const index = nextCommit;
+      const result = finished.get(index)!;
+      finished.delete(index);
+      if ((await commit(result, items[index], index)) === false) stopped = true;
+      nextCommit++;
+      waiters.get(index)?.forEach(waiter => waiter.resolve());
+      waiters.delete(index);
+    }
+  };
+
+  const worker = async () => {
+    while (!stopped && !failure && nextIndex < items.length && !shouldStop()) {
+      const index = nextIndex++;
+      try {
+        finished.set(index, await execute(items[index], index, waitForCommit));
+        commitChain = commitChain.then(flush);
+        await commitChain;
+      } catch (error) {
+        fail(error);
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  if (failure) throw failure.error;
+}
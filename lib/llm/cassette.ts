@@ -0,0 +1,224 @@
+// lib/llm/cassette.ts
+import { appendFile, readFile, stat } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import { ChatMessage, LlmGenerationOptions, NonStreamingResult } from './types';
+import { hashLlmRequest } from './request-hash';
+import { captureSseBody, sseBodyToStream } from './sse-body';
+
+export type CassetteMode = 'record' | 'replay';
+
+export const CASSETTE_FILE_NAME = 'cassette.jsonl';
+
+/**
+ * cassette.jsonl 中的一行记录
+ * - response: 一次 handleChat 调用的结果。流式调用保存完整的 SSE 字节流文本，回放时原样输出；失败的调用保存错误信息，回放时原样抛出
+ * - value: 运行过程中的非确定性取值（如随机截取位置），回放时返回录制的值
+ */
+type CassetteEntry = {
+  kind: 'response';
+  key: string;
+  model: string;
+  recordedAt: string;
+  request: { messages: ChatMessage[]; options: Record<string, unknown> };
+  response:
+    | { type: 'sse'; body: string }
+    | { type: 'result'; result: NonStreamingResult }
+    | { type: 'error'; message: string };
+} | {
+  kind: 'value';
+  key: string;
+  recordedAt: string;
+  value: unknown;
+};
+
+/**
+ * 回放时找不到匹配记录的错误。调用方不应重试，而应直接终止运行。
+ */
+export class CassetteMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * 录制/回放 LLM 调用的磁带。
+ * 录制模式下把经过 handleChat 的每次请求和响应追加写入 cassette.jsonl；
+ * 回放模式下按请求指纹查找录制的响应，同一指纹有多条记录时按录制顺序依次返回，找不到时抛出 CassetteMissError。
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  readonly filePath: string;
+  private entries = new Map<string, CassetteEntry[]>(); // 回放用，按 key 分组的待回放队列
+  private writeChain: Promise<void> = Promise.resolve(); // 录制用，保证按调用顺序写入
+
+  private constructor(mode: CassetteMode, filePath: string) {
+    this.mode = mode;
+    this.filePath = filePath;
+  }
+
+  /**
+   * 创建录制模式的磁带，记录写入 filePath
+   */
+  static forRecording(filePath: string): Cassette {
+    return new Cassette('record', filePath);
+  }
+
+  /**
+   * 读取已录制的 cassette.jsonl，创建回放模式的磁带
+   */
+  static async forReplay(filePath: string): Promise<Cassette> {
+    const cassette = new Cassette('replay', filePath);
+    const content = await readFile(filePath, 'utf-8');
+    content.split('\n').filter(line => line.trim()).forEach((line, index) => {
+      let entry: CassetteEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Cassette 文件 ${filePath} 第 ${index + 1} 行不是合法的 JSON`);
+      }
+      const queueKey = `${entry.kind}:${entry.key}`;
+      const queue = cassette.entries.get(queueKey) || [];
+      queue.push(entry);
+      cassette.entries.set(queueKey, queue);
+    });
+    return cassette;
+  }
+
+  /**
+   * 等待所有录制内容写入磁盘
+   */
+  async flush(): Promise<void> {
+    await this.writeChain;
+  }
+
+  private append(entry: CassetteEntry) {
+    const line = JSON.stringify(entry) + '\n';
+    this.writeChain = this.writeChain
+      .then(() => appendFile(this.filePath, line, 'utf-8'))
+      .catch(error => console.error(`[Cassette] 写入 ${this.filePath} 失败:`, error));
+  }
+
+  private take(kind: CassetteEntry['kind'], key: string): CassetteEntry | undefined {
+    const queue = this.entries.get(`${kind}:${key}`);
+    return queue?.shift();
+  }
+
+  /**
+   * 录制或回放一个非确定性取值：录制时调用 compute 并记录结果，回放时返回录制的值
+   * @param label 取值的唯一标识（同一 label 多次取值按顺序回放）
+   */
+  captureValue<T>(label: string, compute: () => T): T {
+    if (this.mode === 'replay') {
+      const entry = this.take('value', label);
+      if (!entry || entry.kind !== 'value') {
+        throw new CassetteMissError(`Cassette 回放失败: ${this.filePath} 中没有取值 "${label}" 的记录`);
+      }
+      return entry.value as T;
+    }
+    const value = compute();
+    this.append({ kind: 'value', key: label, recordedAt: new Date().toISOString(), value });
+    return value;
+  }
+
+  /**
+   * 包装一次 handleChat 调用：录制模式下执行 call 并记录结果，回放模式下直接返回录制的结果而不调用提供商
+   */
+  async wrap(
+    selectedModel: string,
+    messages: ChatMessage[],
+    options: LlmGenerationOptions | undefined,
+    call: () => Promise<ReadableStream<Uint8Array> | NonStreamingResult>
+  ): Promise<ReadableStream<Uint8Array> | NonStreamingResult> {
+    const key = hashLlmRequest(selectedModel, messages, options);
+    return this.mode === 'replay'
+      ? this.replayResponse(key, selectedModel)
+      : this.recordResponse(key, selectedModel, messages, options, call);
+  }
+
+  private replayResponse(key: string, selectedModel: string): ReadableStream<Uint8Array> | NonStreamingResult {
+    const entry = this.take('response', key);
+    if (!entry || entry.kind !== 'response') {
+      throw new CassetteMissError(
+        `Cassette 回放失败: ${this.filePath} 中没有与本次请求匹配的记录 (model: ${selectedModel}, key: ${key.slice(0, 12)})。` +
+        `请确认提示词、知识库和模型参数与录制时一致。`
+      );
+    }
+    console.log(`[Cassette] 回放 ${selectedModel} 的录制响应 (key: ${key.slice(0, 12)})`);
+
+    switch (entry.response.type) {
+      case 'error':
+        throw new Error(entry.response.message);
+      case 'result':
+        return entry.response.result;
+      case 'sse':
+        return sseBodyToStream(entry.response.body);
+    }
+  }
+
+  private async recordResponse(
+    key: string,
+    selectedModel: string,
+    messages: ChatMessage[],
+    options: LlmGenerationOptions | undefined,
+    call: () => Promise<ReadableStream<Uint8Array> | NonStreamingResult>
+  ): Promise<ReadableStream<Uint8Array> | NonStreamingResult> {
+    const { logPath, cassette, responseCache, ...recordedOptions } = options || {};
+    const base = {
+      kind: 'response' as const,
+      key,
+      model: selectedModel,
+      request: { messages, options: recordedOptions as Record<string, unknown> },
+    };
+
+    let response: ReadableStream<Uint8Array> | NonStreamingResult;
+    try {
+      response = await call();
+    } catch (error: any) {
+      this.append({ ...base, recordedAt: new Date().toISOString(), response: { type: 'error', message: error?.message || String(error) } });
+      throw error;
+    }
+
+    if (!(response instanceof ReadableStream)) {
+      this.append({ ...base, recordedAt: new Date().toISOString(), response: { type: 'result', result: response } });
+      return response;
+    }
+
+    // 流式结果：一路返回给调用方，另一路完整读取后写入磁带
+    return captureSseBody(
+      response,
+      body => this.append({ ...base, recordedAt: new Date().toISOString(), response: { type: 'sse', body } }),
+      error => this.append({ ...base, recordedAt: new Date().toISOString(), response: { type: 'error', message: error?.message || String(error) } })
+    );
+  }
+}
+
+/**
+ * 按环境变量为一次运行打开磁带：
+ * - LLM_CASSETTE_MODE=record: 把本次运行的所有 LLM 调用录制到 <运行目录>/cassette.jsonl
+ * - LLM_CASSETTE_MODE=replay: 从 LLM_CASSETTE_REPLAY_RUN 指定的运行回放，不调用提供商。
+ *   LLM_CASSETTE_REPLAY_RUN 可以是 output/result 下的运行目录名（如 250101_120000），也可以是 cassette.jsonl 的路径
+ * @param runDir 本次运行的结果目录
+ * @returns 未启用时返回 undefined
+ */
+export async function openRunCassette(runDir: string): Promise<Cassette | undefined> {
+  const mode = (process.env.LLM_CASSETTE_MODE || '').trim().toLowerCase();
+  if (mode === 'record') {
+    return Cassette.forRecording(join(runDir, CASSETTE_FILE_NAME));
+  }
+  if (mode === 'replay') {
+    const source = (process.env.LLM_CASSETTE_REPLAY_RUN || '').trim();
+    if (!source) {
+      throw new Error('Configuration error: LLM_CASSETTE_MODE=replay requires LLM_CASSETTE_REPLAY_RUN to be set.');
+    }
+    let filePath = isAbsolute(source) ? source : join(process.cwd(), 'output', 'result', source);
+    if ((await stat(filePath)).isDirectory()) {
+      filePath = join(filePath, CASSETTE_FILE_NAME);
+    }
+    return Cassette.forReplay(filePath);
+  }
+  if (mode && mode !== 'off') {
+    console.warn(`[Cassette] 未知的 LLM_CASSETTE_MODE: ${mode}，已忽略`);
+  }
+  return undefined;
+}
@@ -0,0 +1,171 @@
+// lib/llm/error-classifier.ts
+import { APICallError, RetryError } from 'ai';
+
+/**
+ * LLM 调用失败的类别
+ */
+export type LlmErrorCategory =
+  | 'auth'             // API Key 无效、缺失或无权限
+  | 'quota'            // 账户额度或余额不足
+  | 'rate_limit'       // 触发提供商限流（429）
+  | 'timeout'          // 请求超时
+  | 'context_overflow' // 输入超出模型上下文长度
+  | 'content_filter'   // 触发内容安全审核
+  | 'malformed_output' // 模型回复无法解析为期望的格式
+  | 'server'           // 提供商服务端错误（5xx、过载）
+  | 'network'          // 网络连接错误
+  | 'unknown';
+
+export const ERROR_CATEGORY_LABELS: Record<LlmErrorCategory, string> = {
+  auth: '认证失败',
+  quota: '额度不足',
+  rate_limit: '触发限流',
+  timeout: '请求超时',
+  context_overflow: '超出上下文长度',
+  content_filter: '触发内容审核',
+  malformed_output: '输出格式错误',
+  server: '服务端错误',
+  network: '网络错误',
+  unknown: '未知错误',
+};
+
+// 重试不可能成功的类别，遇到后立即放弃
+const NON_RETRYABLE_CATEGORIES = new Set<LlmErrorCategory>(['auth', 'quota', 'context_overflow', 'content_filter']);
+
+/**
+ * 模型回复无法解析为期望格式时由调用方抛出，按 malformed_output 类别重试
+ */
+export class MalformedOutputError extends Error {
+  readonly content: string;
+
+  constructor(message: string, content: string) {
+    super(message);
+    this.name = 'MalformedOutputError';
+    this.content = content;
+  }
+}
+
+export interface ClassifiedError {
+  category: LlmErrorCategory;
+  retryable: boolean;
+  retryAfterMs?: number; // 提供商通过 Retry-After 响应头给出的建议等待时间
+  message: string;
+}
+
+/**
+ * 解析 retry-after-ms / retry-after 响应头（秒数或 HTTP 日期）
+ */
+function parseRetryAfter(headers: Record<string, string> | undefined): number | undefined {
+  if (!headers) return undefined;
+  const lowerCased: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) lowerCased[key.toLowerCase()] = value;
+
+  const retryAfterMs = Number(lowerCased['retry-after-ms']);
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) return retryAfterMs;
+
+  const retryAfter = lowerCased['retry-after'];
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 按错误信息中的关键字判断类别，覆盖各家提供商（含国产模型）常见的报错文案
+ */
+function classifyByMessage(text: string): LlmErrorCategory | undefined {
+  if (/context[_ ]length|maximum context|context window|prompt is too long|too many tokens|input is too long|token limit|超出.*(上下文|长度)/i.test(text)) return 'context_overflow';
+  if (/content[_ ]?(filter|policy|management)|blocked (due to|by) (safety|content)|safety (settings|filter|system)|data_inspection_failed|sensitive[_ ]content|敏感|审核/i.test(text)) return 'content_filter';
+  if (/insufficient[_ ]quota|quota exceeded|exceeded your current quota|billing|insufficient balance|余额不足|欠费/i.test(text)) return 'quota';
+  if (/rate[_ ]?limit|too many requests|resource[_ ]exhausted|请求过于频繁/i.test(text)) return 'rate_limit';
+  if (/api[_ ]?key|unauthori[sz]ed|authenticat|permission denied|forbidden|invalid[_ ](api[_ ]|access[_ ])?token/i.test(text)) return 'auth';
+  if (/timed? ?out|timeout|aborted/i.test(text)) return 'timeout';
+  if (/overloaded|internal server error|service unavailable|bad gateway/i.test(text)) return 'server';
+  if (/ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|ETIMEDOUT|socket hang up|fetch failed|network/i.test(text)) return 'network';
+  return undefined;
+}
+
+/**
+ * 对 LLM 调用抛出的错误分类，决定是否重试以及建议的等待时间
+ */
+export function classifyLlmError(error: unknown): ClassifiedError {
+  // SDK 自身重试耗尽时抛出 RetryError，按最后一次的错误分类
+  const cause: any = RetryError.isInstance(error) ? error.lastError : error;
+  const message: string = cause?.message || String(cause);
+
+  if (cause instanceof MalformedOutputError) {
+    return { category: 'malformed_output', retryable: true, message };
+  }
+  if (cause?.name === 'AbortError' || cause?.name === 'TimeoutError') {
+    return { category: 'timeout', retryable: true, message };
+  }
+
+  let category: LlmErrorCategory | undefined;
+  let retryAfterMs: number | undefined;
+
+  if (APICallError.isInstance(cause)) {
+    const status = cause.statusCode;
+    const text = `${message} ${cause.responseBody || ''}`;
+    retryAfterMs = parseRetryAfter(cause.responseHeaders);
+    category = classifyByMessage(text);
+    if (status === 429) {
+      // 429 既可能是限流也可能是额度耗尽，只按报错内容区分这两种，避免报错中的其他字眼使其被当作不可重试
+      category = category === 'quota' ? 'quota' : 'rate_limit';
+    } else if (status !== undefined && status >= 500) {
+      category = 'server';
+    } else if (!category || category === 'timeout' || category === 'network') {
+      if (status === 401 || status === 403) category = 'auth';
+      else if (status === 402) category = 'quota';
+      else if (status === 408) category = 'timeout';
+      else if (status === 413) category = 'context_overflow';
+    }
+  } else {
+    category = classifyByMessage(`${message} ${cause?.code || ''}`);
+  }
+
+  category = category || 'unknown';
+  return {
+    category,
+    retryable: !NON_RETRYABLE_CATEGORIES.has(category),
+    retryAfterMs,
+    message,
+  };
+}
+
+export interface RetryPolicy {
+  maxRetries: number;  // 最多重试次数（不含第一次调用）
+  baseDelayMs: number; // 第一次重试的基础等待时间，之后每次翻倍
+  maxDelayMs: number;  // 单次等待的上限
+}
+
+function readNonNegativeEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * 从环境变量读取重试策略：LLM_MAX_RETRIES（默认 2）、LLM_RETRY_BASE_DELAY_MS（默认 2000）、LLM_RETRY_MAX_DELAY_MS（默认 60000）
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxRetries: Math.floor(readNonNegativeEnv('LLM_MAX_RETRIES', 2)),
+    baseDelayMs: readNonNegativeEnv('LLM_RETRY_BASE_DELAY_MS', 2000),
+    maxDelayMs: readNonNegativeEnv('LLM_RETRY_MAX_DELAY_MS', 60000),
+  };
+}
+
+/**
+ * 计算第 attempt 次重试前的等待时间：指数退避加随机抖动；提供商给出 Retry-After 时以其为准（不超过上限）
+ * @param attempt 第几次重试，从 1 开始
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs) + Math.floor(Math.random() * 250);
+  }
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // 抖动取指数退避值的 50%~100%，避免多个任务同时重试
+  return Math.floor(exponential / 2 + Math.random() * exponential / 2);
+}
@@ -0,0 +1,290 @@
+// lib/llm/mock-provider.ts
+import { createHash } from 'crypto';
+import { LanguageModel } from 'ai';
+
+// Vercel AI SDK 的模型接口（LanguageModelV2），从 LanguageModel 中去掉字符串形式的模型 ID 得到
+type MockLanguageModel = Exclude<LanguageModel, string>;
+type MockCallOptions = Parameters<MockLanguageModel['doGenerate']>[0];
+type MockStreamPart = Awaited<ReturnType<MockLanguageModel['doStream']>>['stream'] extends ReadableStream<infer T> ? T : never;
+
+/**
+ * 内置 mock 提供商的运行参数，全部来自环境变量：
+ * - MOCK_MODEL_LIST: 在模型列表中展示的 mock 模型名，逗号分隔（无需 API Key）
+ * - MOCK_LATENCY_MS: 每次调用的模拟延迟，流式输出时平均分摊到各个分块，默认 0
+ * - MOCK_FAILURE_RATE: 注入失败的比例（0~1），由请求哈希决定，用于验证重试逻辑，默认 0
+ * - MOCK_PROMPT_TOKENS / MOCK_COMPLETION_TOKENS: 固定的 token 用量，未设置时按字符数估算
+ */
+interface MockSettings {
+  latencyMs: number;
+  failureRate: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+function readNumberEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function getMockSettings(): MockSettings {
+  return {
+    latencyMs: Math.max(0, readNumberEnv('MOCK_LATENCY_MS') ?? 0),
+    failureRate: Math.min(1, Math.max(0, readNumberEnv('MOCK_FAILURE_RATE') ?? 0)),
+    promptTokens: readNumberEnv('MOCK_PROMPT_TOKENS'),
+    completionTokens: readNumberEnv('MOCK_COMPLETION_TOKENS'),
+  };
+}
+
+/**
+ * 获取 .env 中配置的 mock 模型列表
+ */
+export function getMockModelList(): string[] {
+  return (process.env.MOCK_MODEL_LIST || '').split(',').map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * 可被中止的延迟
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new Error('Mock request aborted'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error('Mock request aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 将 SDK 的 prompt 拼接为纯文本，作为确定性输出的种子
+ */
+function promptToText(prompt: MockCallOptions['prompt']): { system: string; user: string } {
+  let system = '';
+  let user = '';
+  for (const message of prompt) {
+    if (message.role === 'system') {
+      system += message.content;
+    } else if (message.role === 'user') {
+      for (const part of message.content) {
+        if (part.type === 'text') user += part.text;
+      }
+    }
+  }
+  return { system, user };
+}
+
+/**
+ * 从用户消息中按哈希挑选一段原文片段，使同一输入总是得到同一输出
+ */
+function pickSnippet(text: string, hash: string, offset: number): string {
+  // 忽略末尾 "---" 之后追加的指令（如批量生成指令），只从原文中挑选
+  const separatorIndex = text.lastIndexOf('\n---\n');
+  const source = separatorIndex > 0 ? text.slice(0, separatorIndex) : text;
+  const sentences = source
+    .split(/[\n。！？!?]/)
+    .map(sentence => sentence.replace(/^[#>*\-\s]+/, '').trim())
+    .filter(sentence => sentence.length >= 4 && !sentence.startsWith('---'));
+  if (sentences.length === 0) return source.trim().slice(0, 40) || '给定内容';
+  const index = (parseInt(hash.slice(offset * 2, offset * 2 + 8), 16) || 0) % sentences.length;
+  return sentences[index].slice(0, 60);
+}
+
+interface MockQA {
+  question: string;
+  answer: string;
+  key_points: string[];
+  difficulty: 'easy' | 'medium' | 'hard';
+  question_type: string;
+  evidence: string;
+}
+
+const MOCK_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+const MOCK_QUESTION_TYPES = ['factoid', 'list', 'comparison', 'procedural', 'numeric', 'multi_hop', 'yes_no'];
+
+function buildMockQA(userText: string, hash: string, index: number): MockQA {
+  const snippet = pickSnippet(userText, hash, index);
+  return {
+    question: `[mock-${hash.slice(0, 8)}-${index + 1}] 根据给定内容，"${snippet}" 说明了什么？`,
+    answer: `给定内容指出：${snippet}`,
+    key_points: [snippet],
+    difficulty: MOCK_DIFFICULTIES[parseInt(hash.slice(index, index + 2), 16) % MOCK_DIFFICULTIES.length],
+    question_type: MOCK_QUESTION_TYPES[parseInt(hash.slice(index + 2, index + 4), 16) % MOCK_QUESTION_TYPES.length],
+    evidence: snippet,
+  };
+}
+
+/**
+ * 推断本次调用要求生成的问答组数：结构化输出时读取 Schema 的 minItems，文本模式时读取 "生成 N 组" 指令
+ */
+function detectRequestedCount(options: MockCallOptions, userText: string): { count: number; batched: boolean } {
+  const schema: any = options.responseFormat?.type === 'json' ? options.responseFormat.schema : undefined;
+  const schemaCount = schema?.properties?.items?.minItems;
+  if (typeof schemaCount === 'number') return { count: Math.max(1, schemaCount), batched: true };
+  const match = userText.match(/生成\s*(\d+)\s*组/);
+  return { count: match ? Math.max(1, Number(match[1])) : 1, batched: false };
+}
+
+/**
+ * 答案校验请求的回复：答案中的原文片段出现在参考内容中时判为 supported，否则按哈希给出其他结论
+ */
+function buildMockVerification(userText: string, hash: string) {
+  const [, context = '', answer = ''] = userText.match(/--- 参考内容 ---\n([\s\S]*?)\n\n--- 问题 ---[\s\S]*--- 答案 ---\n([\s\S]*)$/) || [];
+  const snippet = answer.replace(/^给定内容指出：/, '').trim();
+  const grounded = snippet.length > 0 && context.includes(snippet);
+  const roll = parseInt(hash.slice(0, 2), 16) / 256;
+  const verdict = grounded && roll < 0.8 ? 'supported' : roll < 0.9 ? 'unfaithful' : 'unanswerable';
+  const rationale = verdict === 'supported' ? '答案出自参考内容' : verdict === 'unfaithful' ? '答案与参考内容不一致' : '参考内容中找不到答案';
+  return { verdict, confidence: Math.round((0.5 + roll / 2) * 100) / 100, rationale: `(mock) ${rationale}` };
+}
+
+/**
+ * 请求的哈希，决定回复内容和是否注入失败。传入 seed 时不同的 seed 得到不同的哈希，相同的 seed 哈希一致
+ */
+function hashMockRequest(options: MockCallOptions, modelId: string): string {
+  const { system, user } = promptToText(options.prompt);
+  const seedPart = options.seed !== undefined ? `${options.seed}\n` : '';
+  return createHash('sha256').update(`${modelId}\n${seedPart}${system}\n${user}`).digest('hex');
+}
+
+/**
+ * 根据输入生成确定性的回复文本：文本模式输出 "Question:/Answer:" 格式，结构化输出时输出 JSON
+ */
+function buildMockResponse(options: MockCallOptions, modelId: string, hash: string): { text: string; reasoning?: string; promptChars: number } {
+  const { system, user } = promptToText(options.prompt);
+  // 请求用途由调用方通过 providerOptions.mock.requestKind 标明，未标明时视为生成问答
+  const requestKind = (options.providerOptions?.mock as any)?.requestKind;
+  // 答案校验请求
+  if (requestKind === 'verification') {
+    const text = JSON.stringify(buildMockVerification(user, hash));
+    return { text, promptChars: system.length + user.length };
+  }
+  // 问题分类请求：按哈希给出问题类型和难度
+  if (requestKind === 'classification') {
+    const text = JSON.stringify({
+      question_type: MOCK_QUESTION_TYPES[parseInt(hash.slice(0, 2), 16) % MOCK_QUESTION_TYPES.length],
+      difficulty: MOCK_DIFFICULTIES[parseInt(hash.slice(2, 4), 16) % MOCK_DIFFICULTIES.length],
+    });
+    return { text, promptChars: system.length + user.length };
+  }
+
+  const { count, batched } = detectRequestedCount(options, user);
+  const pairs = Array.from({ length: count }, (_, index) => buildMockQA(user, hash, index));
+
+  let text: string;
+  if (options.responseFormat?.type === 'json') {
+    text = JSON.stringify(batched ? { items: pairs } : pairs[0]);
+  } else {
+    text = pairs.map(qa => `Question: ${qa.question}\nAnswer: ${qa.answer}`).join('\n\n');
+  }
+
+  const reasoningEffort = (options.providerOptions?.mock as any)?.reasoningEffort;
+  const reasoning = reasoningEffort ? `(mock 推理过程, reasoningEffort=${reasoningEffort}) 从输入中选取了 ${count} 个片段。` : undefined;
+
+  return { text, reasoning, promptChars: system.length + user.length };
+}
+
+function buildUsage(settings: MockSettings, promptChars: number, completionChars: number) {
+  // 未指定固定用量时，按约 4 个字符 1 个 token 估算
+  const inputTokens = settings.promptTokens ?? Math.ceil(promptChars / 4);
+  const outputTokens = settings.completionTokens ?? Math.ceil(completionChars / 4);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+/**
+ * 按配置的失败率注入失败：由请求哈希中与回复内容无关的部分决定，相同请求的结果一致；
+ * 重试时 seed 随尝试次数变化，哈希随之改变，因此重试有机会成功。
+ */
+function maybeInjectFailure(settings: MockSettings, modelId: string, hash: string) {
+  if (settings.failureRate > 0 && parseInt(hash.slice(-8), 16) / 0x100000000 < settings.failureRate) {
+    throw new Error(`Mock provider injected failure (model: ${modelId}, MOCK_FAILURE_RATE=${settings.failureRate})`);
+  }
+}
+
+/**
+ * 创建离线、确定性的 mock 模型，实现 Vercel AI SDK 的模型接口，
+ * 从而可以走与真实提供商完全相同的 generateText / streamText / generateObject 流程。
+ * @param modelId 模型名（如 mock:echo 中的 echo）
+ */
+export function createMockLanguageModel(modelId: string): MockLanguageModel {
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const settings = getMockSettings();
+      await sleep(settings.latencyMs, options.abortSignal);
+      const hash = hashMockRequest(options, modelId);
+      maybeInjectFailure(settings, modelId, hash);
+
+      const { text, reasoning, promptChars } = buildMockResponse(options, modelId, hash);
+      return {
+        content: [
+          ...(reasoning ? [{ type: 'reasoning' as const, text: reasoning }] : []),
+          { type: 'text' as const, text },
+        ],
+        finishReason: 'stop',
+        usage: buildUsage(settings, promptChars, text.length),
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const settings = getMockSettings();
+      const hash = hashMockRequest(options, modelId);
+      maybeInjectFailure(settings, modelId, hash);
+
+      const { text, reasoning, promptChars } = buildMockResponse(options, modelId, hash);
+      // 按行切分为多个分块，延迟平均分摊到每个分块上
+      const textChunks = text.match(/[^\n]*\n?/g)?.filter(Boolean) ?? [text];
+      const chunkDelay = settings.latencyMs / Math.max(1, textChunks.length);
+
+      const parts: MockStreamPart[] = [{ type: 'stream-start', warnings: [] }];
+      if (reasoning) {
+        parts.push(
+          { type: 'reasoning-start', id: 'reasoning-0' },
+          { type: 'reasoning-delta', id: 'reasoning-0', delta: reasoning },
+          { type: 'reasoning-end', id: 'reasoning-0' },
+        );
+      }
+      parts.push({ type: 'text-start', id: 'text-0' });
+      for (const chunk of textChunks) {
+        parts.push({ type: 'text-delta', id: 'text-0', delta: chunk });
+      }
+      parts.push(
+        { type: 'text-end', id: 'text-0' },
+        { type: 'finish', finishReason: 'stop', usage: buildUsage(settings, promptChars, text.length) },
+      );
+
+      const stream = new ReadableStream<MockStreamPart>({
+        async start(controller) {
+          try {
+            for (const part of parts) {
+              if (part.type === 'text-delta') {
+                await sleep(chunkDelay, options.abortSignal);
+              }
+              controller.enqueue(part);
+            }
+            controller.close();
+          } catch (error) {
+            controller.error(error);
+          }
+        },
+      });
+
+      return { stream };
+    },
+  };
+}
@@ -0,0 +1,63 @@
+// lib/llm/model-capabilities.ts
+
+// 常见模型的上下文窗口（token），按模型名匹配，靠前的规则优先
+const CONTEXT_WINDOW_RULES: { pattern: RegExp; contextWindow: number }[] = [
+  { pattern: /gpt-4\.1/i, contextWindow: 1_047_576 },
+  { pattern: /gpt-5/i, contextWindow: 400_000 },
+  { pattern: /gpt-4o|gpt-4-turbo|^o[134](-|$)/i, contextWindow: 128_000 },
+  { pattern: /gpt-3\.5/i, contextWindow: 16_385 },
+  { pattern: /gemini/i, contextWindow: 1_048_576 },
+  { pattern: /claude/i, contextWindow: 200_000 },
+  { pattern: /deepseek/i, contextWindow: 128_000 },
+  { pattern: /qwen.*(long|plus|max|turbo)/i, contextWindow: 131_072 },
+  { pattern: /qwen/i, contextWindow: 32_768 },
+  { pattern: /glm-4/i, contextWindow: 128_000 },
+  { pattern: /moonshot|kimi/i, contextWindow: 128_000 },
+];
+
+/**
+ * 获取模型的上下文窗口大小（token）。
+ * 优先读取环境变量 <PROVIDER>_CONTEXT_WINDOW（如 OLLAMA_CONTEXT_WINDOW=8192，对该提供商的所有模型生效），
+ * 其次按常见模型名匹配，mock 提供商视为不限制。
+ * @param model provider:model 格式的模型名
+ * @returns 未知时返回 undefined
+ */
+export function getContextWindow(model: string): number | undefined {
+  const separatorIndex = model.indexOf(':');
+  const provider = separatorIndex === -1 ? '' : model.substring(0, separatorIndex).toLowerCase();
+  const modelName = separatorIndex === -1 ? model : model.substring(separatorIndex + 1);
+
+  const override = Number(process.env[`${provider.toUpperCase()}_CONTEXT_WINDOW`]);
+  if (provider && Number.isFinite(override) && override > 0) return override;
+  if (provider === 'mock') return undefined;
+
+  return CONTEXT_WINDOW_RULES.find(rule => rule.pattern.test(modelName))?.contextWindow;
+}
+
+// 通过 OpenAI 兼容接口接受 reasoning_effort 的推理模型（OpenAI o 系列、GPT-5、gpt-oss、Grok 3 mini）
+const REASONING_EFFORT_MODEL_PATTERN = /^o[134](-|$)|gpt-5|gpt-oss|grok-3-mini/i;
+// Ollama 中支持 think 参数的思考模型，对其他模型传 think 会返回错误
+const OLLAMA_THINKING_MODEL_PATTERN = /qwen3|deepseek-r1|gpt-oss|magistral|qwq|deepseek-v3\.1/i;
+// Gemini 中接受 thinkingConfig 的思考模型（2.5 及之后），1.5、2.0 系列传该参数会返回错误
+const GEMINI_THINKING_MODEL_PATTERN = /gemini-(2\.5|[3-9])/i;
+
+/**
+ * 判断模型是否接受推理强度参数（OpenAI 兼容提供商的 reasoning_effort、Ollama 的 think、Gemini 的 thinkingConfig），
+ * 部分提供商对非推理模型传该参数会直接报错。
+ * 可通过 <PROVIDER>_REASONING_EFFORT=true/false 环境变量覆盖默认判断（对该提供商的所有模型生效）。
+ * Anthropic 以思考预算控制推理深度，不经过此判断。
+ * @param model provider:model 格式的模型名
+ */
+export function isReasoningEffortSupported(model: string): boolean {
+  const separatorIndex = model.indexOf(':');
+  const provider = separatorIndex === -1 ? '' : model.substring(0, separatorIndex).toLowerCase();
+  const modelName = separatorIndex === -1 ? model : model.substring(separatorIndex + 1);
+
+  const override = process.env[`${provider.toUpperCase()}_REASONING_EFFORT`];
+  if (provider && override !== undefined && override.trim() !== '') {
+    return override.trim().toLowerCase() === 'true';
+  }
+  if (provider === 'ollama') return OLLAMA_THINKING_MODEL_PATTERN.test(modelName);
+  if (provider === 'google') return GEMINI_THINKING_MODEL_PATTERN.test(modelName);
+  return REASONING_EFFORT_MODEL_PATTERN.test(modelName);
+}
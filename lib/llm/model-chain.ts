@@ -0,0 +1,16 @@
+// lib/llm/model-chain.ts
+
+/**
+ * 将工作模型配置解析为按优先级排列的模型列表（provider:model 格式），第一个为主模型，其余为备用模型。
+ * workModel 可以是单个模型、逗号分隔的多个模型或模型数组；fallbacks 追加在其后。重复和空项会被去掉。
+ */
+export function resolveModelChain(workModel: string | string[] | undefined, fallbacks?: string[]): string[] {
+  const primary = Array.isArray(workModel) ? workModel : (workModel || '').split(',');
+  const chain: string[] = [];
+  for (const raw of [...primary, ...(fallbacks || [])]) {
+    const model = typeof raw === 'string' ? raw.trim() : '';
+    if (!model || model === '未设置' || chain.includes(model)) continue;
+    chain.push(model);
+  }
+  return chain;
+}
@@ -15,6 +15,11 @@ export function getProviderConfig(providerName: string): BaseProviderConfig {
   const apiKey = process.env[`${upperCaseProvider}_API_KEY`];
   const proxyUrl = process.env[`${upperCaseProvider}_PROXY_URL`];
 
+  // 内置 mock 提供商不访问网络，不需要 API Key
+  if (providerKey === 'mock') {
+    return { apiKey: 'mock' };
+  }
+
   // 特殊处理 Ollama，其 API Key 可以是 'None'
   if (providerKey === 'ollama' && apiKey === 'None') {
     return { apiKey: 'None', proxyUrl };
@@ -29,4 +34,56 @@ export function getProviderConfig(providerName: string): BaseProviderConfig {
   }
 
   return { apiKey, proxyUrl };
-}
\ No newline at end of file
+}
+
+// 默认支持 seed 参数的提供商
+const SEED_PROVIDERS = new Set(['openai', 'google', 'ollama', 'mock']);
+
+/**
+ * 判断提供商是否支持 seed 参数。
+ * 可通过 <PROVIDER>_SEED=true/false 环境变量覆盖默认判断。
+ * @param providerName 提供商名称
+ */
+export function isSeedSupported(providerName: string): boolean {
+  const providerKey = providerName.toLowerCase();
+  const override = process.env[`${providerKey.toUpperCase()}_SEED`];
+  if (override !== undefined && override.trim() !== '') {
+    return override.trim().toLowerCase() === 'true';
+  }
+  return SEED_PROVIDERS.has(providerKey);
+}
+
+// 默认支持 JSON Schema 结构化输出的提供商
+const STRUCTURED_OUTPUT_PROVIDERS = new Set(['openai', 'google', 'anthropic', 'ollama', 'mock']);
+
+/**
+ * 判断提供商是否支持 JSON Schema 结构化输出。
+ * 可通过 <PROVIDER>_STRUCTURED_OUTPUT=true/false 环境变量覆盖默认判断（例如兼容 OpenAI 的国产模型）。
+ * @param providerName 提供商名称
+ */
+export function isStructuredOutputSupported(providerName: string): boolean {
+  const providerKey = providerName.toLowerCase();
+  const override = process.env[`${providerKey.toUpperCase()}_STRUCTURED_OUTPUT`];
+  if (override !== undefined && override.trim() !== '') {
+    return override.trim().toLowerCase() === 'true';
+  }
+  return STRUCTURED_OUTPUT_PROVIDERS.has(providerKey);
+}
+
+// 同一进程内同时向一个提供商发出的请求数上限，本地部署的 Ollama 默认只允许一个
+const DEFAULT_MAX_CONCURRENCY = 4;
+const PROVIDER_MAX_CONCURRENCY: Record<string, number> = { ollama: 1, mock: 16 };
+
+/**
+ * 获取同一进程内对提供商的最大并发请求数，所有运行共享。
+ * 可通过 <PROVIDER>_MAX_CONCURRENCY 环境变量覆盖默认值（至少为 1）。
+ * @param providerName 提供商名称
+ */
+export function getProviderMaxConcurrency(providerName: string): number {
+  const providerKey = providerName.toLowerCase();
+  const override = Number(process.env[`${providerKey.toUpperCase()}_MAX_CONCURRENCY`]);
+  if (Number.isInteger(override) && override >= 1) {
+    return override;
+  }
+  return PROVIDER_MAX_CONCURRENCY[providerKey] ?? DEFAULT_MAX_CONCURRENCY;
+}
@@ -0,0 +1,72 @@
+// lib/llm/model-pricing.ts
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { TokenUsage } from './types';
+
+/**
+ * 单个模型的价格，单位为每百万 token 的价格（币种见价格表的 currency）
+ */
+export interface ModelPrice {
+  input: number;        // 输入 token
+  output: number;       // 输出 token
+  reasoning?: number;   // 推理 token，未设置时按输出价格计算
+  cachedInput?: number; // 命中提供商缓存的输入 token，未设置时按输入价格计算
+}
+
+export interface PricingTable {
+  currency: string;
+  models: Record<string, ModelPrice>; // 键为 provider:model，也可用 provider:* 为整个提供商设置默认价格
+}
+
+const DEFAULT_PRICING_FILE = 'model-pricing.json';
+
+/**
+ * 读取价格表，路径来自环境变量 MODEL_PRICING_PATH，默认为项目根目录下的 model-pricing.json。
+ * 每次运行开始时重新读取，修改价格表后无需重启服务。文件不存在或格式错误时返回空价格表。
+ */
+export async function loadPricingTable(): Promise<PricingTable> {
+  const pricingPath = process.env.MODEL_PRICING_PATH || join(process.cwd(), DEFAULT_PRICING_FILE);
+  try {
+    const parsed = JSON.parse(await readFile(pricingPath, 'utf-8'));
+    return {
+      currency: typeof parsed.currency === 'string' ? parsed.currency : 'USD',
+      models: parsed.models && typeof parsed.models === 'object' ? parsed.models : {},
+    };
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.warn(`[ModelPricing] 读取价格表 ${pricingPath} 失败，费用将不做统计:`, error?.message || error);
+    }
+    return { currency: 'USD', models: {} };
+  }
+}
+
+/**
+ * 查找模型的价格：先按 provider:model 精确匹配，再按 provider:* 匹配
+ */
+export function findModelPrice(table: PricingTable, model: string): ModelPrice | undefined {
+  if (table.models[model]) return table.models[model];
+  const provider = model.split(':')[0];
+  return table.models[`${provider}:*`];
+}
+
+// 输出 token 不含推理部分、推理 token 单独报告的提供商（Gemini 的 candidatesTokenCount 与 thoughtsTokenCount 分开统计）
+const SEPARATE_REASONING_PROVIDERS = new Set(['google']);
+
+/**
+ * 按价格计算一次调用的费用。
+ * 各提供商报告的输入 token 包含缓存命中的部分，这里拆开分别计价；
+ * 多数提供商的输出 token 包含推理部分，需要扣除后按输出价格计价，Gemini 的推理 token 不在输出 token 中，两者相加计费。
+ * @param model provider:model 格式的模型名，用于判断推理 token 的统计方式
+ */
+export function computeCost(usage: TokenUsage, price: ModelPrice, model: string): number {
+  const cachedInput = Math.min(usage.cachedInput_tokens || 0, usage.prompt_tokens || 0);
+  const separateReasoning = SEPARATE_REASONING_PROVIDERS.has(model.split(':')[0].toLowerCase());
+  const reasoning = separateReasoning ? usage.reasoning_tokens || 0 : Math.min(usage.reasoning_tokens || 0, usage.completion_tokens || 0);
+  const visibleOutput = separateReasoning ? usage.completion_tokens || 0 : (usage.completion_tokens || 0) - reasoning;
+  const cost =
+    ((usage.prompt_tokens || 0) - cachedInput) * price.input +
+    cachedInput * (price.cachedInput ?? price.input) +
+    visibleOutput * price.output +
+    reasoning * (price.reasoning ?? price.output);
+  return cost / 1_000_000;
+}
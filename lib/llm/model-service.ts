@@ -1,8 +1,12 @@
 // lib/llm/model-service.ts
 import { VercelAIProvider } from './vercel-ai-provider';
-import { getProviderConfig } from './model-config';
+import { getProviderConfig, isSeedSupported, isStructuredOutputSupported } from './model-config';
 import { ChatMessage, LlmGenerationOptions, NonStreamingResult, StreamChunk, BaseProviderConfig } from './types';
 import { ProxyAgent, setGlobalDispatcher } from 'undici';
+import { getRateLimiter } from './rate-limiter';
+import { getProviderSemaphore } from './provider-semaphore';
+import { estimateMessagesTokens } from './token-estimator';
+import { captureSseBody, parseSseChunks } from './sse-body';
 
 // 使用一个模块级别的变量确保代理设置只执行一次
 let isProxyInitialized = false;
@@ -60,6 +64,8 @@ function parseModelSelection(selectedValue: string): { provider: string; model:
 /**
  * 聊天服务的核心业务逻辑。
  * 职责：编排业务流程（解析、创建实例、调用方法）。
+ * 传入 options.cassette 时，由磁带录制本次调用，或直接回放录制的结果而不调用提供商；
+ * 传入 options.responseCache 时，先查询响应缓存，未命中才调用提供商。
  * @param selectedModel 从前端传来的模型值
  * @param messages 对话历史
  * @returns 返回一个可读的文本流
@@ -68,6 +74,84 @@ export async function handleChat(
   selectedModel: string,
   messages: ChatMessage[],
   options?: LlmGenerationOptions
+): Promise<ReadableStream<Uint8Array> | NonStreamingResult> {
+  const call = options?.responseCache
+    ? () => options.responseCache!.wrap(selectedModel, messages, options, () => callProvider(selectedModel, messages, options))
+    : () => callProvider(selectedModel, messages, options);
+  if (options?.cassette) {
+    return options.cassette.wrap(selectedModel, messages, options, call);
+  }
+  return call();
+}
+
+/**
+ * 在提供商的并发上限内调用模型提供商：先排队获取请求位置，非流式调用返回或流式结果读取结束后释放。
+ * 并发上限在整个进程内共享，多个运行同时执行时合计也不超过上限。
+ */
+async function callProvider(
+  selectedModel: string,
+  messages: ChatMessage[],
+  options?: LlmGenerationOptions
+): Promise<ReadableStream<Uint8Array> | NonStreamingResult> {
+  const { provider } = parseModelSelection(selectedModel);
+  const release = await getProviderSemaphore(provider).acquire();
+  let response: ReadableStream<Uint8Array> | NonStreamingResult;
+  try {
+    response = await callRateLimited(selectedModel, messages, options);
+  } catch (error) {
+    release();
+    throw error;
+  }
+
+  if (!(response instanceof ReadableStream)) {
+    release();
+    return response;
+  }
+  return captureSseBody(response, () => release(), () => release());
+}
+
+/**
+ * 经过提供商限流后调用模型提供商。
+ * 配置了 <PROVIDER>_RPM / <PROVIDER>_TPM 时，先按估算的输入 token 数排队获取额度，调用结束后用实际消耗修正。
+ */
+async function callRateLimited(
+  selectedModel: string,
+  messages: ChatMessage[],
+  options?: LlmGenerationOptions
+): Promise<ReadableStream<Uint8Array> | NonStreamingResult> {
+  const { provider } = parseModelSelection(selectedModel);
+  const limiter = getRateLimiter(provider);
+  if (!limiter) {
+    return invokeProvider(selectedModel, messages, options);
+  }
+
+  const ticket = await limiter.acquire(estimateMessagesTokens(messages, options?.systemPrompt), options?.onRateLimitWait);
+  let response: ReadableStream<Uint8Array> | NonStreamingResult;
+  try {
+    response = await invokeProvider(selectedModel, messages, options);
+  } catch (error) {
+    ticket.settle(undefined); // 失败的请求同样计入 RPM，token 保持估算值
+    throw error;
+  }
+
+  if (!(response instanceof ReadableStream)) {
+    ticket.settle(response.usage?.total_tokens);
+    return response;
+  }
+  // 流式结果在流结束后从 usage 数据块中取得实际消耗
+  return captureSseBody(response, body => {
+    const usageChunk = parseSseChunks(body).find(chunk => chunk.type === 'usage');
+    ticket.settle(usageChunk?.type === 'usage' ? usageChunk.payload.total_tokens : undefined);
+  });
+}
+
+/**
+ * 实际调用模型提供商
+ */
+async function invokeProvider(
+  selectedModel: string,
+  messages: ChatMessage[],
+  options?: LlmGenerationOptions
 ): Promise<ReadableStream<Uint8Array> | NonStreamingResult> {
   // 在处理任何请求之前，首先确保代理已初始化
   initializeGlobalProxy();
@@ -92,6 +176,11 @@ export async function handleChat(
     ...options, // 用户自定义参数覆盖默认值
   };
 
+  // 不支持 seed 的提供商不传递该参数
+  if (finalConfig.seed !== undefined && !isSeedSupported(provider)) {
+    delete finalConfig.seed;
+  }
+
   // 3. 创建 VercelAIProvider 实例
   const vercelAIProvider = new VercelAIProvider(
     provider,
@@ -99,7 +188,24 @@ export async function handleChat(
     finalConfig.proxyUrl
   );
 
-  // 4. 调用 VercelAIProvider 的方法执行核心操作
+  // 4. 结构化输出：提供商支持时以对象生成方式调用（不流式）；不支持时去掉 Schema，按普通文本生成，由调用方回退解析
+  if (finalConfig.outputSchema) {
+    if (isStructuredOutputSupported(provider)) {
+      const result = await vercelAIProvider.generateStructured(model, messages, finalConfig);
+      console.log(`[handleChat] 成功接收到结构化输出用量数据:`, result.usage);
+
+      return {
+        content: result.content || '',
+        object: result.object,
+        usage: result.usage || { prompt_tokens: 0, completion_tokens: 0, reasoning_tokens: 0, cachedInput_tokens: 0, total_tokens: 0 },
+        duration: result.duration,
+      };
+    }
+    console.log(`[handleChat] 提供商 ${provider} 不支持结构化输出，回退为文本生成`);
+    delete finalConfig.outputSchema;
+  }
+
+  // 5. 调用 VercelAIProvider 的方法执行核心操作
   // 如果 stream 选项为 false，则调用非流式方法。
   // 默认（undefined）或 true 时，调用流式方法。
   if (options?.stream === false) {
@@ -143,11 +249,11 @@ export async function handleChat(
             const durationChunk: StreamChunk = { type: 'duration', payload: result.duration };
             await writer.write(encoder.encode(toSSE(durationChunk)));
           }
+          await writer.close();
         } catch (e) {
+          // 中止后流已处于错误状态，不能再关闭；读取端会收到该错误
           console.error("在 SSE 流转换中发生错误:", e);
-          writer.abort(e);
-        } finally {
-          writer.close();
+          writer.abort(e).catch(() => {});
         }
       })();
 
@@ -157,18 +263,17 @@ export async function handleChat(
     // 3. 如果是流式结果，创建 TransformStream
     const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
     const writer = writable.getWriter();
-    const reader = result.stream.getReader(); // 这是原始的文本流 reader
+    const reader = result.stream.getReader(); // 这是原始的增量数据流 reader
     const encoder = new TextEncoder();
 
     // 3. 异步地将原始文本流转换为包含 StreamChunk 的 SSE 字节流
     (async () => {
       try {
-        // 首先处理文本流
+        // 首先逐块转发正文和思考过程的增量
         while (true) {
           const { value, done } = await reader.read();
           if (done) break;
-          const textChunk: StreamChunk = { type: 'text', payload: value };
-          await writer.write(encoder.encode(toSSE(textChunk)));
+          await writer.write(encoder.encode(toSSE(value)));
         }
 
         // 文本流结束后，等待token消耗统计和耗时两个Promise都完成
@@ -187,11 +292,10 @@ export async function handleChat(
           const durationChunk: StreamChunk = { type: 'duration', payload: finalDuration };
           await writer.write(encoder.encode(toSSE(durationChunk)));
         }
+        await writer.close();
       } catch (e) {
         console.error("在 SSE 流转换中发生错误:", e);
-        writer.abort(e);
-      } finally {
-        writer.close();
+        writer.abort(e).catch(() => {});
       }
     })();
 
@@ -203,4 +307,58 @@ export async function handleChat(
 // 流式输出中，将模型回复流和token消耗结构数据格式化为 SSE 字符串
 function toSSE(chunk: StreamChunk): string {
   return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
+/**
+ * 在服务端消费 handleChat 返回的 SSE 字节流，汇总为与非流式调用一致的结果。
+ * @param stream handleChat 在流式模式下返回的字节流
+ * @param onText 每收到一块正文增量时回调，参数为截至当前的完整正文
+ * @returns 汇总后的正文、Token 消耗和耗时统计
+ */
+export async function readChatStream(
+  stream: ReadableStream<Uint8Array>,
+  onText?: (fullText: string) => void
+): Promise<NonStreamingResult> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const result: NonStreamingResult = {
+    content: '',
+    usage: { prompt_tokens: 0, completion_tokens: 0, reasoning_tokens: 0, cachedInput_tokens: 0, total_tokens: 0 },
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || ''; // 保留最后一个不完整的消息
+
+    for (const event of events) {
+      if (!event.startsWith('data: ')) continue;
+      let chunk: StreamChunk;
+      try {
+        chunk = JSON.parse(event.substring(6)) as StreamChunk;
+      } catch (error) {
+        // 单条事件格式错误时跳过，不影响后续内容的读取
+        console.warn('[readChatStream] 跳过无法解析的 SSE 事件:', event.substring(0, 200));
+        continue;
+      }
+      switch (chunk.type) {
+        case 'text':
+          result.content += chunk.payload;
+          onText?.(result.content);
+          break;
+        case 'usage':
+          result.usage = chunk.payload;
+          break;
+        case 'duration':
+          result.duration = chunk.payload;
+          break;
+      }
+    }
+  }
+
+  return result;
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+// lib/llm/provider-semaphore.ts
+import { getProviderMaxConcurrency } from './model-config';
+
+/**
+ * 单个提供商的并发上限：进行中的请求数达到上限时，新的请求按到达顺序排队。
+ */
+class ProviderSemaphore {
+  readonly provider: string;
+  readonly limit: number;
+  private active = 0;
+  private readonly waiters: (() => void)[] = [];
+
+  constructor(provider: string, limit: number) {
+    this.provider = provider;
+    this.limit = limit;
+  }
+
+  /**
+   * 排队获取一个请求位置
+   * @returns 请求结束后调用的释放函数，重复调用不会多次释放
+   */
+  async acquire(): Promise<() => void> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      // 释放时位置直接交给队首的请求，active 不变
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiters.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
+
+// 同一进程内同一提供商的所有调用共享一个并发上限，多个运行同时执行时也不会超出
+const semaphores = new Map<string, ProviderSemaphore>();
+
+/**
+ * 获取提供商的并发上限，上限来自 getProviderMaxConcurrency（可用 <PROVIDER>_MAX_CONCURRENCY 覆盖）
+ * @param providerName 提供商名称
+ */
+export function getProviderSemaphore(providerName: string): ProviderSemaphore {
+  const providerKey = providerName.toLowerCase();
+  const limit = getProviderMaxConcurrency(providerKey);
+
+  const existing = semaphores.get(providerKey);
+  // 配置变化（如修改 .env 后热重载）时重新创建，进行中的请求仍在原来的实例上释放
+  if (existing && existing.limit === limit) return existing;
+
+  const semaphore = new ProviderSemaphore(providerKey, limit);
+  semaphores.set(providerKey, semaphore);
+  return semaphore;
+}
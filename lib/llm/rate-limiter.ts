@@ -0,0 +1,135 @@
+// lib/llm/rate-limiter.ts
+
+const WINDOW_MS = 60_000; // RPM/TPM 均按滑动的 60 秒窗口统计
+const MAX_WAIT_TICK_MS = 1000; // 等待时每秒回调一次剩余时间，便于界面倒计时
+
+/**
+ * 一次已获准的调用。调用结束后用实际消耗的 token 数修正预留的估算值。
+ */
+export interface RateLimitTicket {
+  settle(actualTokens: number | undefined): void;
+}
+
+/**
+ * 等待回调，参数为预计还需等待的毫秒数；等待结束、获得额度时以 0 回调一次
+ */
+export type RateLimitWaitCallback = (waitMs: number, provider: string) => void;
+
+interface WindowEntry {
+  time: number;
+  tokens: number;
+}
+
+/**
+ * 单个提供商的限流器：在 60 秒滑动窗口内限制请求数（RPM）和 token 数（TPM）。
+ * 所有调用按到达顺序排队获取额度，先到先得。
+ */
+class ProviderRateLimiter {
+  readonly provider: string;
+  readonly rpm?: number;
+  readonly tpm?: number;
+  private window: WindowEntry[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(provider: string, rpm?: number, tpm?: number) {
+    this.provider = provider;
+    this.rpm = rpm;
+    this.tpm = tpm;
+  }
+
+  /**
+   * 排队获取一次调用的额度
+   * @param estimatedTokens 预留的 token 数，调用结束后通过 ticket.settle 修正
+   * @param onWait 需要等待时的回调
+   */
+  acquire(estimatedTokens: number, onWait?: RateLimitWaitCallback): Promise<RateLimitTicket> {
+    const turn = this.queue.then(() => this.waitForCapacity(estimatedTokens, onWait));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForCapacity(estimatedTokens: number, onWait?: RateLimitWaitCallback): Promise<RateLimitTicket> {
+    const notify = (waitMs: number) => {
+      try {
+        onWait?.(waitMs, this.provider);
+      } catch (error) {
+        // 回调失败（如任务已取消）不影响限流本身
+      }
+    };
+    let waited = false;
+    while (true) {
+      const now = Date.now();
+      this.window = this.window.filter(entry => now - entry.time < WINDOW_MS);
+      const waitMs = this.computeWait(now, estimatedTokens);
+      if (waitMs <= 0) {
+        if (waited) notify(0);
+        const entry: WindowEntry = { time: now, tokens: estimatedTokens };
+        this.window.push(entry);
+        return {
+          settle: (actualTokens) => {
+            if (typeof actualTokens === 'number' && actualTokens > 0) entry.tokens = actualTokens;
+          }
+        };
+      }
+      waited = true;
+      notify(waitMs);
+      await new Promise(resolve => setTimeout(resolve, Math.min(waitMs, MAX_WAIT_TICK_MS)));
+    }
+  }
+
+  /**
+   * 计算还需等待多久才有足够额度，0 表示可以立即调用
+   */
+  private computeWait(now: number, estimatedTokens: number): number {
+    let waitMs = 0;
+
+    if (this.rpm && this.window.length >= this.rpm) {
+      // 需要等到窗口内倒数第 rpm 个请求过期
+      const blocking = this.window[this.window.length - this.rpm];
+      waitMs = Math.max(waitMs, blocking.time + WINDOW_MS - now);
+    }
+
+    if (this.tpm && this.window.length > 0) {
+      let usedTokens = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+      // 单次请求超过 TPM 时，只能等窗口完全清空后再发出
+      const allowed = Math.max(this.tpm - estimatedTokens, 0);
+      for (const entry of this.window) {
+        if (usedTokens <= allowed) break;
+        usedTokens -= entry.tokens;
+        waitMs = Math.max(waitMs, entry.time + WINDOW_MS - now);
+      }
+    }
+
+    return waitMs;
+  }
+}
+
+function readLimitEnv(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// 同一进程内同一提供商的所有调用共享一个限流器
+const limiters = new Map<string, ProviderRateLimiter>();
+
+/**
+ * 获取提供商的限流器，配置来自环境变量 <PROVIDER>_RPM 和 <PROVIDER>_TPM（如 DEEPSEEK_RPM、DEEPSEEK_TPM）
+ * @param providerName 提供商名称
+ * @returns 两项都未配置时返回 undefined，表示不限流
+ */
+export function getRateLimiter(providerName: string): ProviderRateLimiter | undefined {
+  const providerKey = providerName.toLowerCase();
+  const upperCaseProvider = providerKey.toUpperCase();
+  const rpm = readLimitEnv(`${upperCaseProvider}_RPM`);
+  const tpm = readLimitEnv(`${upperCaseProvider}_TPM`);
+  if (!rpm && !tpm) return undefined;
+
+  const existing = limiters.get(providerKey);
+  // 配置变化（如修改 .env 后热重载）时重新创建
+  if (existing && existing.rpm === rpm && existing.tpm === tpm) return existing;
+
+  const limiter = new ProviderRateLimiter(providerKey, rpm, tpm);
+  limiters.set(providerKey, limiter);
+  console.log(`[RateLimiter] ${providerKey} 限流已启用: RPM=${rpm ?? '不限'}, TPM=${tpm ?? '不限'}`);
+  return limiter;
+}
@@ -0,0 +1,44 @@
+// lib/llm/request-hash.ts
+import { createHash } from 'crypto';
+import { ChatMessage, LlmGenerationOptions } from './types';
+
+// 不影响模型输出的选项（日志路径、超时、运行期对象等），计算请求指纹时排除；请求用途已由系统提示词区分，也不计入
+const VOLATILE_OPTION_KEYS = new Set(['logPath', 'timeoutMs', 'cassette', 'responseCache', 'requestKind']);
+
+/**
+ * 按键名排序后序列化，保证相同内容得到相同字符串；函数和 undefined 与 JSON.stringify 一样被忽略
+ */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .filter(key => {
+      const item = (value as Record<string, unknown>)[key];
+      return item !== undefined && typeof item !== 'function';
+    })
+    .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * 计算一次 LLM 请求的指纹：模型、消息和所有影响输出的生成参数完全相同时指纹相同
+ * @param selectedModel 格式为 "provider:model"
+ * @param messages 对话消息
+ * @param options 生成参数
+ * @param includeSeed 是否按 seed 区分请求；为 false 时以 seedKey 代替 seed，每次运行随机的种子不影响指纹
+ */
+export function hashLlmRequest(selectedModel: string, messages: ChatMessage[], options?: LlmGenerationOptions, includeSeed: boolean = true): string {
+  const relevantOptions: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(options || {})) {
+    if (VOLATILE_OPTION_KEYS.has(key)) continue;
+    if (key === (includeSeed ? 'seedKey' : 'seed')) continue;
+    relevantOptions[key] = value;
+  }
+  const payload = stableStringify({ model: selectedModel, messages, options: relevantOptions });
+  return createHash('sha256').update(payload).digest('hex');
+}
@@ -0,0 +1,120 @@
+// lib/llm/response-cache.ts
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import { ChatMessage, LlmGenerationOptions, NonStreamingResult } from './types';
+import { hashLlmRequest } from './request-hash';
+import { isSeedSupported } from './model-config';
+import { captureSseBody, sseBodyToStream } from './sse-body';
+import { appendToLogFile } from '@/lib/server-utils';
+
+/**
+ * 缓存文件的内容，流式调用保存完整的 SSE 文本，命中时原样输出
+ */
+interface CachedResponse {
+  key: string;
+  model: string;
+  createdAt: string;
+  response: { type: 'sse'; body: string } | { type: 'result'; result: NonStreamingResult };
+}
+
+export interface ResponseCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * 以请求内容寻址的磁盘响应缓存。
+ * 模型、系统提示词、消息和生成参数完全相同的请求直接返回上次成功的响应，不再调用提供商。
+ * 只缓存成功的响应；缓存文件按指纹前两位分目录存放，避免单个目录文件过多。
+ * 运行种子随机生成或提供商不支持 seed 时，指纹不包含 seed，多次运行之间也能命中缓存。
+ */
+export class ResponseCache {
+  readonly dir: string;
+  readonly seedPinned: boolean; // 运行种子是否由用户指定
+  private hits = 0;
+  private misses = 0;
+
+  constructor(dir: string, seedPinned: boolean = true) {
+    this.dir = dir;
+    this.seedPinned = seedPinned;
+  }
+
+  getStats(): ResponseCacheStats {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  private filePathFor(key: string): string {
+    return join(this.dir, key.slice(0, 2), `${key}.json`);
+  }
+
+  private async read(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return JSON.parse(await readFile(this.filePathFor(key), 'utf-8'));
+    } catch (error) {
+      return undefined; // 文件不存在或已损坏，都视为未命中
+    }
+  }
+
+  private async write(entry: CachedResponse) {
+    try {
+      const filePath = this.filePathFor(entry.key);
+      await mkdir(join(this.dir, entry.key.slice(0, 2)), { recursive: true });
+      await writeFile(filePath, JSON.stringify(entry), 'utf-8');
+    } catch (error) {
+      console.error(`[ResponseCache] 写入缓存失败 (key: ${entry.key.slice(0, 12)}):`, error);
+    }
+  }
+
+  /**
+   * 包装一次 handleChat 调用：命中缓存时直接返回缓存的响应，否则执行 call 并缓存成功的结果
+   */
+  async wrap(
+    selectedModel: string,
+    messages: ChatMessage[],
+    options: LlmGenerationOptions | undefined,
+    call: () => Promise<ReadableStream<Uint8Array> | NonStreamingResult>
+  ): Promise<ReadableStream<Uint8Array> | NonStreamingResult> {
+    const provider = selectedModel.substring(0, selectedModel.indexOf(':'));
+    const key = hashLlmRequest(selectedModel, messages, options, this.seedPinned && isSeedSupported(provider));
+    const cached = await this.read(key);
+
+    if (cached) {
+      this.hits++;
+      console.log(`[ResponseCache] 命中缓存 ${selectedModel} (key: ${key.slice(0, 12)})`);
+      if (options?.logPath) {
+        await appendToLogFile(options.logPath, `--- 命中响应缓存 ---\nkey: ${key}\n缓存时间: ${cached.createdAt}\n\n`);
+      }
+      return cached.response.type === 'sse' ? sseBodyToStream(cached.response.body) : cached.response.result;
+    }
+
+    this.misses++;
+    const response = await call();
+    const base = { key, model: selectedModel, createdAt: new Date().toISOString() };
+
+    if (!(response instanceof ReadableStream)) {
+      await this.write({ ...base, response: { type: 'result', result: response } });
+      return response;
+    }
+    // 流式结果完整结束后才写入缓存，中途出错的流不缓存
+    return captureSseBody(response, body => this.write({ ...base, response: { type: 'sse', body } }));
+  }
+}
+
+/**
+ * 按环境变量为一次运行创建响应缓存：
+ * - LLM_RESPONSE_CACHE=true 时启用，默认关闭
+ * - LLM_RESPONSE_CACHE_DIR 指定缓存目录，默认 output/cache
+ * @param bypass 本次运行是否跳过缓存（运行页面的开关）
+ * @param seedPinned 运行种子是否由用户指定；随机生成的种子不计入缓存指纹
+ * @returns 未启用或跳过时返回 undefined
+ */
+export function openResponseCache(bypass: boolean = false, seedPinned: boolean = true): ResponseCache | undefined {
+  if ((process.env.LLM_RESPONSE_CACHE || '').trim().toLowerCase() !== 'true' || bypass) {
+    return undefined;
+  }
+  const configuredDir = (process.env.LLM_RESPONSE_CACHE_DIR || '').trim();
+  const dir = configuredDir
+    ? (isAbsolute(configuredDir) ? configuredDir : join(process.cwd(), configuredDir))
+    : join(process.cwd(), 'output', 'cache');
+  return new ResponseCache(dir, seedPinned);
+}
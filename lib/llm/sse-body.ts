@@ -0,0 +1,56 @@
+// lib/llm/sse-body.ts
+import { StreamChunk } from './types';
+
+/**
+ * 复制 handleChat 返回的 SSE 字节流：一路原样返回给调用方，另一路完整读取为文本，
+ * 读取完成后回调 onComplete，流出错时回调 onError。用于磁带录制和响应缓存写入。
+ * @returns 交给调用方的字节流
+ */
+export function captureSseBody(
+  stream: ReadableStream<Uint8Array>,
+  onComplete: (body: string) => void | Promise<void>,
+  onError?: (error: any) => void | Promise<void>
+): ReadableStream<Uint8Array> {
+  const [forCaller, forCapture] = stream.tee();
+  (async () => {
+    const reader = forCapture.getReader();
+    const decoder = new TextDecoder();
+    let body = '';
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        body += decoder.decode(value, { stream: true });
+      }
+      body += decoder.decode();
+    } catch (error) {
+      await onError?.(error);
+      return;
+    }
+    await onComplete(body);
+  })().catch(error => console.error('[captureSseBody] 处理 SSE 副本时出错:', error));
+  return forCaller;
+}
+
+/**
+ * 解析完整的 SSE 文本，返回其中所有的数据块
+ */
+export function parseSseChunks(body: string): StreamChunk[] {
+  return body
+    .split('\n\n')
+    .filter(event => event.startsWith('data: '))
+    .map(event => JSON.parse(event.substring(6)) as StreamChunk);
+}
+
+/**
+ * 将保存的 SSE 文本还原为与 handleChat 返回值一致的字节流
+ */
+export function sseBodyToStream(body: string): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(body);
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    }
+  });
+}
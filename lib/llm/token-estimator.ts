@@ -0,0 +1,28 @@
+// lib/llm/token-estimator.ts
+import { ChatMessage } from './types';
+
+// 中日韩字符（含全角标点）大多单独计为约 1 个 token
+const CJK_CHAR_REGEX = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+/**
+ * 粗略估算文本的 token 数：中日韩字符按 1 个 token 计，其余字符按约 4 个字符 1 个 token 计。
+ * 这是估算而不是分词：代码或数字较多的文本、对中文切分更细的分词器下，真实 token 数可能明显偏多。
+ * 用于限流预留、费用预估和综合任务上下文打包，依赖该值控制长度的地方需要自行留出余量。
+ */
+export function estimateTextTokens(text: string | null | undefined): number {
+  if (!text) return 0;
+  const cjkCount = (text.match(CJK_CHAR_REGEX) || []).length;
+  const otherCount = text.length - cjkCount;
+  return cjkCount + Math.ceil(otherCount / 4);
+}
+
+/**
+ * 估算一次请求的输入 token 数（系统提示词 + 所有消息，每条消息额外计入少量格式开销）
+ */
+export function estimateMessagesTokens(messages: ChatMessage[], systemPrompt?: string): number {
+  const MESSAGE_OVERHEAD = 4;
+  return messages.reduce(
+    (sum, message) => sum + estimateTextTokens(message.content) + MESSAGE_OVERHEAD,
+    systemPrompt ? estimateTextTokens(systemPrompt) + MESSAGE_OVERHEAD : 0
+  );
+}
@@ -1,4 +1,8 @@
 // lib/llm/types.ts
+import type { Cassette } from './cassette';
+import type { ResponseCache } from './response-cache';
+import type { RateLimitWaitCallback } from './rate-limiter';
+
 /**
  * 定义 Token 使用情况的结构
  */
@@ -24,6 +28,7 @@ export interface DurationUsage {
 // 定义从 Provider 返回的复杂响应结构
 export interface LlmProviderResponse {
   content: string | null;
+  object?: unknown; // 结构化输出模式下生成的对象
   usage?: TokenUsage;
   duration?: DurationUsage;
 }
@@ -34,6 +39,7 @@ export interface LlmProviderResponse {
  */
 export interface NonStreamingResult {
   content: string;
+  object?: unknown; // 结构化输出模式下生成的对象，提供商不支持时为空
   usage: TokenUsage;
   duration?: DurationUsage;
 }
@@ -44,9 +50,9 @@ export interface NonStreamingResult {
  */
 export interface StreamingResult {
   /**
-   * 大模型返回的最终结果
+   * 大模型返回的增量数据流，按到达顺序逐块输出正文与思考过程
    */
-  stream: ReadableStream<string>;
+  stream: ReadableStream<StreamDelta>;
   /**
    * 一个在流完全结束后才会兑现的 Promise。
    * 本次对话所消耗的 Token 总量(包含工具调用等)。
@@ -63,6 +69,9 @@ export interface StreamingResult {
 export type StreamChunk = {
   type: 'text';
   payload: string; // 聊天文本内容
+} | {
+  type: 'reasoning';
+  payload: string; // 思考过程的增量内容
 } | {
   type: 'usage';
   payload: TokenUsage; // Token 用量数据
@@ -71,6 +80,11 @@ export type StreamChunk = {
   payload: DurationUsage;
 };
 
+/**
+ * Provider 在流式生成过程中逐块产出的增量内容（正文或思考过程）
+ */
+export type StreamDelta = Extract<StreamChunk, { type: 'text' | 'reasoning' }>;
+
 /**
  * 通用的消息结构，支持 user, assistant, 和 system 角色
  */
@@ -79,6 +93,16 @@ export interface ChatMessage {
   content: string | null;
 }
 
+/**
+ * 推理强度，由 Provider 按各自的方式映射为具体参数（推理档位或思考预算）
+ */
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/**
+ * 请求用途：生成问答、答案校验或问题分类。真实模型只看提示词，mock 提供商据此构造对应格式的回复
+ */
+export type LlmRequestKind = 'generation' | 'verification' | 'classification';
+
 /**
  * @description 所有模型在生成内容时可以接受的、通用的运行时选项。
  * 所有属性都设为可选，以便调用者可以只提供他们想覆盖的参数。
@@ -91,8 +115,16 @@ export interface LlmGenerationOptions {
   topP?: number;  // 思维开放度  top_p ，默认1.0，范围0-1.0,考虑多少种可能性，值越大，接受更多可能的回答；值越小，倾向选择最可能的回答。不推荐和创意活跃度一起更改
   presencePenalty?: number;  // 表述发散度,默认0，范围-2.0-2.0,值越大，越倾向不同的表达方式，避免概念重复；值越小，越倾向使用重复的概念或叙述，表达更具一致性
   frequencyPenalty?: number; // 词汇丰富度,默认0，范围-2.0-2.0,值越大，用词越丰富多样；值越低，用词更朴实简单
+  reasoningEffort?: ReasoningEffort; // 推理强度，未设置时不向模型传递任何推理相关参数
+  seed?: number; // 随机种子，提供商支持时用于获得可复现的采样结果
+  seedKey?: string; // seed 的派生用途（如 task:12），运行种子随机生成时响应缓存以它代替 seed 计算指纹
     systemPrompt?: string; // 系统提示词
+    outputSchema?: Record<string, any>; // 结构化输出的 JSON Schema，提供商支持时以对象生成方式调用（不流式）
+    requestKind?: LlmRequestKind; // 请求用途，未设置时视为生成问答
     logPath?: string; // 运行日志存储目录
+    cassette?: Cassette; // 录制/回放磁带，设置后由 handleChat 录制调用或回放录制的结果
+    responseCache?: ResponseCache; // 响应缓存，设置后相同的请求直接返回缓存的响应
+    onRateLimitWait?: RateLimitWaitCallback; // 触发提供商限流需要排队等待时的回调
 }
 
 /**
@@ -2,6 +2,8 @@
 import { 
   streamText, 
   generateText, 
+  generateObject,
+  NoObjectGeneratedError,
   LanguageModel,
   stepCountIs,
   jsonSchema,
@@ -11,8 +13,17 @@ import {
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createOpenAI } from '@ai-sdk/openai';
 import { createAnthropic } from '@ai-sdk/anthropic';
-import { ChatMessage, TokenUsage, DurationUsage, StreamingResult, LlmProviderResponse, BaseProviderConfig } from './types';
+import { ChatMessage, TokenUsage, DurationUsage, StreamingResult, StreamDelta, LlmProviderResponse, BaseProviderConfig, ReasoningEffort } from './types';
 import { appendToLogFile } from '@/lib/server-utils';
+import { createMockLanguageModel } from './mock-provider';
+import { isReasoningEffortSupported } from './model-capabilities';
+
+// 推理强度对应的思考预算（token），用于以预算控制思考深度的提供商（Anthropic、Gemini）
+const THINKING_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 1024,
+  medium: 4096,
+  high: 16384,
+};
 
 /**
  * 统一的 LLM 提供商，使用 Vercel AI SDK 处理所有模型
@@ -22,6 +33,8 @@ export class VercelAIProvider {
   private apiKey: string;
   private proxyUrl?: string;
   private logPath?: string;
+  private reasoningMapping?: string; // 本次请求推理强度的映射说明，写入任务日志
+  private ollamaThink?: boolean | ReasoningEffort; // 本次请求传给 Ollama 的原生 think 参数
 
   constructor(providerName: string, apiKey: string, proxyUrl?: string) {
     this.providerName = providerName;
@@ -56,7 +69,14 @@ export class VercelAIProvider {
         console.log(`[VercelAIProvider] Creating Ollama model with baseURL: ${ollamaBaseURL}`);
         const openaiProvider = createOpenAI({
           baseURL: ollamaBaseURL,
-          apiKey: this.apiKey || 'ollama' // Ollama不需要真实API key
+          apiKey: this.apiKey || 'ollama', // Ollama不需要真实API key
+          // SDK 没有 Ollama 原生 think 参数的选项，设置了推理强度时直接追加到请求体
+          fetch: async (input, init) => {
+            if (this.ollamaThink !== undefined && typeof init?.body === 'string') {
+              init = { ...init, body: JSON.stringify({ ...JSON.parse(init.body), think: this.ollamaThink }) };
+            }
+            return fetch(input, init);
+          },
         });
         const baseModel = openaiProvider.chat(modelName);
         // 使用中间件包装模型以提取推理内容
@@ -65,6 +85,10 @@ export class VercelAIProvider {
           middleware: extractReasoningMiddleware({ tagName: 'think' })
         });
 
+      // 内置 mock 提供商，离线返回确定性结果，用于测试
+      case 'mock':
+        return createMockLanguageModel(modelName);
+
       // OpenAI
       case 'openai':
         return createOpenAI({ baseURL: this.proxyUrl, apiKey: this.apiKey })(modelName);
@@ -89,17 +113,24 @@ export class VercelAIProvider {
     });
   }
 
+  /**
+   * 将 Vercel SDK 的用量统计转换为我们自己的 TokenUsage 格式
+   */
+  private toTokenUsage(usage: any): TokenUsage {
+    return {
+      prompt_tokens: usage?.inputTokens || 0,
+      completion_tokens: usage?.outputTokens || 0,
+      reasoning_tokens: usage?.reasoningTokens || 0,
+      cachedInput_tokens: usage?.cachedInputTokens || 0,
+      total_tokens: usage?.totalTokens || 0,
+    };
+  }
+
   /**
    * 将 Vercel SDK 的结果适配回我们自己的 LlmProviderResponse 格式
    */
   private async adaptVercelResponse(result: any, totalDuration: number): Promise<LlmProviderResponse> {
-    const usage: TokenUsage = {
-      prompt_tokens: (result.totalUsage as any)?.inputTokens || 0,
-      completion_tokens: (result.totalUsage as any)?.outputTokens || 0,
-      reasoning_tokens: (result.totalUsage as any)?.reasoningTokens || 0,
-      cachedInput_tokens: (result.totalUsage as any)?.cachedInputTokens || 0,
-      total_tokens: (result.totalUsage as any)?.totalTokens || 0,
-    };
+    const usage = this.toTokenUsage(result.totalUsage);
 
     const duration: DurationUsage = {
       total_duration: totalDuration,
@@ -125,13 +156,71 @@ export class VercelAIProvider {
     };
   }
 
+  /**
+   * 将通用的推理强度映射为当前提供商的 providerOptions
+   * @param modelName 模型名，OpenAI 兼容提供商只对已知的推理模型传递推理参数
+   * @param effort 推理强度
+   * @returns providerOptions（Ollama 为原生 think 参数）及映射说明，模型不支持时只有说明；未设置推理强度时返回 undefined
+   */
+  private buildReasoningOptions(modelName: string, effort?: ReasoningEffort): { providerOptions?: Record<string, any>; ollamaThink?: boolean | ReasoningEffort; description: string } | undefined {
+    if (!effort) return undefined;
+    const providerKey = this.providerName.toLowerCase();
+    const budgetTokens = THINKING_BUDGETS[effort];
+
+    switch (providerKey) {
+      // Anthropic 通过 extended thinking 的思考预算控制推理深度
+      case 'anthropic':
+        return {
+          providerOptions: { anthropic: { thinking: { type: 'enabled', budgetTokens } } },
+          description: `anthropic thinking.budgetTokens=${budgetTokens}`,
+        };
+
+      // Gemini 通过 thinkingConfig 的思考预算控制推理深度，1.5、2.0 等非思考模型不传递
+      case 'google':
+        if (!isReasoningEffortSupported(`${providerKey}:${modelName}`)) {
+          return { description: `google 模型 ${modelName} 不支持 thinkingConfig，已跳过` };
+        }
+        return {
+          providerOptions: { google: { thinkingConfig: { thinkingBudget: budgetTokens, includeThoughts: true } } },
+          description: `google thinkingConfig.thinkingBudget=${budgetTokens}`,
+        };
+
+      // Ollama 使用原生的 think 参数：gpt-oss 接受推理档位，其他思考模型只能开启或关闭
+      case 'ollama': {
+        if (!isReasoningEffortSupported(`${providerKey}:${modelName}`)) {
+          return { description: `ollama 模型 ${modelName} 不支持 think 参数，已跳过` };
+        }
+        const think = /gpt-oss/i.test(modelName) ? effort : true;
+        return { ollamaThink: think, description: `ollama think=${think}` };
+      }
+
+      // mock 提供商仅在输出中附带一段模拟的思考内容
+      case 'mock':
+        return {
+          providerOptions: { mock: { reasoningEffort: effort } },
+          description: `mock reasoningEffort=${effort}`,
+        };
+
+      // OpenAI 及其他兼容 OpenAI 的提供商对推理模型使用 reasoning_effort，其他模型可能拒绝该参数，不传递
+      default:
+        if (!isReasoningEffortSupported(`${providerKey}:${modelName}`)) {
+          return { description: `${providerKey} 模型 ${modelName} 不支持 reasoning_effort，已跳过` };
+        }
+        return {
+          providerOptions: { openai: { reasoningEffort: effort } },
+          description: `${providerKey} reasoningEffort=${effort}`,
+        };
+    }
+  }
+
   /**
    * @description 将通用配置转换为Vercel AI SDK所需的参数格式
+   * @param modelName 模型名
    * @param messages 聊天消息
    * @param options 包含所有配置的 BaseProviderConfig 对象
    * @returns 准备好用于 streamText/generateText 的参数对象
    */
-  private prepareSdkParams(messages: ChatMessage[], options: BaseProviderConfig): any {
+  private prepareSdkParams(modelName: string, messages: ChatMessage[], options: BaseProviderConfig): any {
     // 组装最终的参数对象
     const sdkParams: any = {
       system: options.systemPrompt,
@@ -141,9 +230,23 @@ export class VercelAIProvider {
       presencePenalty: options.presencePenalty,
       frequencyPenalty: options.frequencyPenalty,
       maxTokens: options.maxOutputTokens,
+      seed: options.seed,
+      maxRetries: 0, // 关闭 SDK 内置重试，由调用方按错误类别统一重试
     };
     this.logPath = options.logPath;
 
+    const reasoning = this.buildReasoningOptions(modelName, options.reasoningEffort);
+    if (reasoning?.providerOptions) {
+      sdkParams.providerOptions = reasoning.providerOptions;
+    }
+    // mock 提供商按请求用途构造回复，其他提供商不传递
+    if (options.requestKind && this.providerName.toLowerCase() === 'mock') {
+      const mockOptions = sdkParams.providerOptions?.mock;
+      sdkParams.providerOptions = { ...sdkParams.providerOptions, mock: { ...mockOptions, requestKind: options.requestKind } };
+    }
+    this.ollamaThink = reasoning?.ollamaThink;
+    this.reasoningMapping = reasoning?.description;
+
     return sdkParams;
   }
 
@@ -163,7 +266,7 @@ export class VercelAIProvider {
     try {
       const languageModel = this.createModelInstance(model);
 
-      const generateOptions = this.prepareSdkParams(messages, options);
+      const generateOptions = this.prepareSdkParams(model, messages, options);
       console.log('\n--- [LLM Request Log - Non-Streaming] ---');
       console.log(`Timestamp: ${new Date().toISOString()}`);
       console.log('调用大模型：', model)
@@ -176,13 +279,19 @@ export class VercelAIProvider {
                 : sendMessages;
         await appendToLogFile(this.logPath, `--- 发送给大模型的消息 ---\n${messageForLog}\n\n`);
       }
+      if (this.reasoningMapping) {
+        console.log('推理强度映射：', this.reasoningMapping)
+        if (this.logPath) {
+          await appendToLogFile(this.logPath, `--- 推理强度 ---\n${options.reasoningEffort} -> ${this.reasoningMapping}\n\n`);
+        }
+      }
       // console.log('参数配置信息:', JSON.stringify(generateOptions, null, 2));
       console.log('-----------------------------------------\n');
 
       const result = await generateText({
         model: languageModel,
         ...generateOptions,
-        signal: controller.signal, // 超时控制
+        abortSignal: controller.signal, // 超时控制
       });
 
       
@@ -197,6 +306,79 @@ export class VercelAIProvider {
     }
   }
 
+  /**
+   * 结构化输出生成：按 options.outputSchema 约束模型返回 JSON 对象
+   * 模型返回的内容无法解析为符合 Schema 的对象时，不抛错，而是返回原始文本交由调用方回退解析。
+   */
+  async generateStructured(
+    model: string,
+    messages: ChatMessage[],
+    options: BaseProviderConfig
+  ): Promise<LlmProviderResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs);
+
+    // 记录总开始时间
+    const totalStartTime = Date.now();
+    try {
+      const languageModel = this.createModelInstance(model);
+
+      const generateOptions = this.prepareSdkParams(model, messages, options);
+      console.log('\n--- [LLM Request Log - Structured] ---');
+      console.log(`Timestamp: ${new Date().toISOString()}`);
+      console.log('调用大模型：', model)
+      console.log('系统提示词：', generateOptions.system || '无')
+      console.log('发送给大模型的消息：', generateOptions.messages)
+      if (this.logPath) {
+        const sendMessages = JSON.stringify(generateOptions.messages, null, 2);
+        const messageForLog = sendMessages.length > 200
+                ? sendMessages.slice(0, 300) + '...'
+                : sendMessages;
+        await appendToLogFile(this.logPath, `--- 发送给大模型的消息（结构化输出） ---\n${messageForLog}\n\n`);
+      }
+      if (this.reasoningMapping) {
+        console.log('推理强度映射：', this.reasoningMapping)
+        if (this.logPath) {
+          await appendToLogFile(this.logPath, `--- 推理强度 ---\n${options.reasoningEffort} -> ${this.reasoningMapping}\n\n`);
+        }
+      }
+      console.log('-----------------------------------------\n');
+
+      try {
+        const result = await generateObject({
+          model: languageModel,
+          ...generateOptions,
+          schema: jsonSchema(options.outputSchema as any),
+          abortSignal: controller.signal, // 超时控制
+        });
+
+        const totalDuration = (Date.now() - totalStartTime) * 1e6;
+        console.log('大模型结构化回复:', JSON.stringify(result.object));
+        return {
+          content: JSON.stringify(result.object, null, 2),
+          object: result.object,
+          usage: this.toTokenUsage(result.usage),
+          duration: { total_duration: totalDuration, load_duration: 0, prompt_eval_duration: 0, eval_duration: 0 },
+        };
+      } catch (error) {
+        if (!NoObjectGeneratedError.isInstance(error)) throw error;
+
+        const totalDuration = (Date.now() - totalStartTime) * 1e6;
+        console.warn('[VercelAIProvider] 结构化输出解析失败，返回原始文本:', error.message);
+        if (this.logPath) {
+          await appendToLogFile(this.logPath, `--- 结构化输出解析失败，回退为原始文本 ---\n${error.message}\n\n`);
+        }
+        return {
+          content: error.text || null,
+          usage: this.toTokenUsage(error.usage),
+          duration: { total_duration: totalDuration, load_duration: 0, prompt_eval_duration: 0, eval_duration: 0 },
+        };
+      }
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
   /**
    * 流式生成
    */
@@ -208,10 +390,12 @@ export class VercelAIProvider {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs);
 
+    // 记录总开始时间，流结束后兑现耗时统计
+    const totalStartTime = Date.now();
     try {
       const languageModel = this.createModelInstance(model);
 
-      const streamOptions = this.prepareSdkParams(messages, options);
+      const streamOptions = this.prepareSdkParams(model, messages, options);
       console.log('\n--- [LLM Request Log - Streaming] ---');
       console.log(`Timestamp: ${new Date().toISOString()}`);
       console.log('调用大模型：', model)
@@ -224,41 +408,71 @@ export class VercelAIProvider {
                 : sendMessages;
         await appendToLogFile(this.logPath, `--- 发送给大模型的消息 ---\n${messageForLog}\n\n`);
       }
+      if (this.reasoningMapping) {
+        console.log('推理强度映射：', this.reasoningMapping)
+        if (this.logPath) {
+          await appendToLogFile(this.logPath, `--- 推理强度 ---\n${options.reasoningEffort} -> ${this.reasoningMapping}\n\n`);
+        }
+      }
       // console.log('参数配置信息:', JSON.stringify(streamOptions, null, 2));
       console.log('-----------------------------------------\n');
 
-      const result = await streamText({
+      const result = streamText({
         model: languageModel,
         ...streamOptions,
-        signal: controller.signal, // 超时控制
+        abortSignal: controller.signal, // 超时控制
       });
 
       // 设置token统计Promise
-      let finalUsageResolver: (usage: TokenUsage | undefined) => void;
       const finalUsagePromise = new Promise<TokenUsage | undefined>(resolve => {
-        finalUsageResolver = resolve;
-        result.totalUsage.then(usage => resolve({
-          prompt_tokens: (usage as any)?.inputTokens || 0,
-          completion_tokens: (usage as any)?.outputTokens || 0,
-          reasoning_tokens: (usage as any)?.reasoningTokens || 0,
-          cachedInput_tokens: (usage as any)?.cachedInputTokens || 0,
-          total_tokens: (usage as any)?.totalTokens || 0,
-        })).catch(() => resolve(undefined));
+        result.totalUsage.then(usage => resolve(this.toTokenUsage(usage))).catch(() => resolve(undefined));
+      });
+
+      let finalDurationResolver: (duration: DurationUsage | undefined) => void = () => {};
+      const finalDurationPromise = new Promise<DurationUsage | undefined>(resolve => {
+        finalDurationResolver = resolve;
       });
 
-      // 创建可读流来处理Vercel AI SDK的流式响应
-      const readableStream = new ReadableStream<string>({
-        async start(controller) {
+      // 将 SDK 的 fullStream 逐块转发：正文增量和思考增量分别标记类型，到达即输出
+      const logPath = this.logPath;
+      const readableStream = new ReadableStream<StreamDelta>({
+        async start(streamController) {
+          let fullText = '';
+          let fullReasoning = '';
           try {
-            // 使用Vercel AI SDK的toDataStream方法
-            const text = await result.text;
-            if (text) {
-              console.log('大模型流式回复:', text);
-              controller.enqueue(text);
+            for await (const part of result.fullStream) {
+              switch (part.type) {
+                case 'text-delta':
+                  fullText += part.text;
+                  streamController.enqueue({ type: 'text', payload: part.text });
+                  break;
+                case 'reasoning-delta':
+                  fullReasoning += part.text;
+                  streamController.enqueue({ type: 'reasoning', payload: part.text });
+                  break;
+                case 'error':
+                  throw part.error;
+              }
+            }
+            console.log('大模型流式回复:', fullText || '无');
+            if (fullReasoning) {
+              console.log('[大模型思考内容]:', fullReasoning);
+              if (logPath && fullReasoning.length > 10) {
+                await appendToLogFile(logPath, `--- 思考过程 ---\n${fullReasoning}\n\n`);
+              }
             }
-            controller.close();
+            streamController.close();
+            finalDurationResolver({
+              total_duration: (Date.now() - totalStartTime) * 1e6,
+              load_duration: 0,
+              prompt_eval_duration: 0,
+              eval_duration: 0,
+            });
           } catch (error) {
-            controller.error(error);
+            streamController.error(error);
+            finalDurationResolver(undefined);
+          } finally {
+            clearTimeout(timeoutId);
           }
         }
       });
@@ -266,7 +480,7 @@ export class VercelAIProvider {
       return {
         stream: readableStream,
         finalUsagePromise: finalUsagePromise,
-        finalDurationPromise: Promise.resolve(undefined), // Vercel SDK 不提供
+        finalDurationPromise: finalDurationPromise, // Vercel SDK 不提供，按流的起止时间计算
       };
     } catch(error) {
       clearTimeout(timeoutId);
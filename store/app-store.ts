@@ -14,6 +14,7 @@ interface ModelParams {
   maxTokensInput: string
   intelligentAdjustment: boolean
   reasoningEffort: string
+  structuredOutput: boolean
 }
 
 // 模型配置接口
@@ -47,6 +48,8 @@ interface CurrentRunState {
   modelAnswer?: string;
   score?: number;
   maxScore?: number;
+  isStreaming?: boolean; // 流式生成中，questionText/modelAnswer 为部分内容
+  model?: string; // 实际生成当前问题的模型（发生备用切换时与工作模型不同）
 }
 
 // 全局状态接口
@@ -62,6 +65,8 @@ interface AppState {
     chunkSystemPrompt: string
     documentSystemPrompt: string
     comprehensiveSystemPrompt: string
+    // 无法回答问题的系统提示词，留空时使用内置的默认提示词
+    unanswerableSystemPrompt: string
     knowledgeBaseFiles: string[]
     knowledgeBaseFileData: any[]
     isDragging: boolean
@@ -71,6 +76,7 @@ interface AppState {
     showSuccess: boolean
     // 工作模型配置（从modelSettingsConfig移过来）
     workModel: string
+    workModelFallbacks: string[] // 备用模型，按顺序在工作模型重试耗尽后依次尝试
     workModelParams: ModelParams
   }
 
@@ -87,6 +93,38 @@ interface AppState {
     chunkQuestionCount: number
     documentQuestionCount: number
     comprehensiveQuestionCount: number
+    unanswerableQuestionCount: number
+    // 每次模型调用生成的问题数
+    qaQuestionsPerCall: number
+    chunkQuestionsPerCall: number
+    documentQuestionsPerCall: number
+    comprehensiveQuestionsPerCall: number
+    unanswerableQuestionsPerCall: number
+    // 本次运行跳过响应缓存，不持久化
+    bypassResponseCache: boolean
+    // 运行种子，留空时每次运行自动生成；不持久化，避免之后的运行被意外固定为同一结果
+    runSeed: string
+    // 运行预算，超出后不再开始新任务，0 表示不限制
+    tokenBudget: number
+    costBudget: number
+    // 同时执行的任务数，实际并发数不超过提供商的并发上限
+    runConcurrency: number
+    // 近似重复问题的处理方式：不去重 / 标记 duplicate_of / 删除
+    dedupMode: 'off' | 'flag' | 'drop'
+    // 相似度阈值（0~1），达到即视为重复
+    dedupThreshold: number
+    // 去重范围：同一来源内 / 整个运行
+    dedupScope: 'source' | 'run'
+    // 多轮生成时，在提示词中列出该内容此前已生成的问题
+    dedupPromptHint: boolean
+    // 每次生成后由校验模型检查问题能否根据内容回答、答案是否忠实
+    verifyAnswers: boolean
+    // 校验模型，留空时与工作模型相同
+    verifierModel: string
+    // 生成时未给出问题类型或难度的问题，由工作模型补充标注
+    classifyQuestions: boolean
+    // 当前（或最近一次）运行任务的 id，刷新页面后据此重新连接服务端的运行任务
+    currentJobId: string
     // 用于跟踪进度的状态
     currentTask: number
     totalTasks: number
@@ -109,6 +147,7 @@ interface AppState {
   setChunkSystemPrompt: (prompt: string) => void
   setDocumentSystemPrompt: (prompt: string) => void
   setComprehensiveSystemPrompt: (prompt: string) => void
+  setUnanswerableSystemPrompt: (prompt: string) => void
   setKnowledgeBaseFiles: (files: string[]) => void
   setKnowledgeBaseFileData: (fileData: any[]) => void
   setIsDragging: (dragging: boolean) => void
@@ -122,6 +161,7 @@ interface AppState {
   setModels: (models: ModelConfig[]) => void
   setProviders: (providers: { [key: string]: ProviderConfig }) => void
   setWorkModel: (model: string) => void
+  setWorkModelFallbacks: (models: string[]) => void
   setWorkModelParams: (params: ModelParams) => void
 
   // Run Results Actions
@@ -134,6 +174,21 @@ interface AppState {
   setChunkQuestionCount: (count: number) => void
   setDocumentQuestionCount: (count: number) => void
   setComprehensiveQuestionCount: (count: number) => void
+  setUnanswerableQuestionCount: (count: number) => void
+  setQuestionsPerCall: (taskType: 'QA' | 'Chunk' | 'Document' | 'Comprehensive' | 'Unanswerable', count: number) => void
+  setBypassResponseCache: (bypass: boolean) => void
+  setRunSeed: (seed: string) => void
+  setTokenBudget: (budget: number) => void
+  setCostBudget: (budget: number) => void
+  setRunConcurrency: (concurrency: number) => void
+  setDedupMode: (mode: 'off' | 'flag' | 'drop') => void
+  setDedupThreshold: (threshold: number) => void
+  setDedupScope: (scope: 'source' | 'run') => void
+  setDedupPromptHint: (enabled: boolean) => void
+  setVerifyAnswers: (enabled: boolean) => void
+  setVerifierModel: (model: string) => void
+  setClassifyQuestions: (enabled: boolean) => void
+  setCurrentJobId: (jobId: string) => void
   // 用于更新进度的 Actions
   setCurrentTask: (task: number) => void
   setTotalTasks: (tasks: number) => void
@@ -156,7 +211,8 @@ const defaultModelParams: ModelParams = {
   maxTokens: [0],
   maxTokensInput: "0",
   intelligentAdjustment: false,
-  reasoningEffort: "中"
+  reasoningEffort: "中",
+  structuredOutput: false
 }
 
 // 创建 Zustand store
@@ -174,6 +230,7 @@ export const useAppStore = create<AppState>()(
         chunkSystemPrompt: "",
         documentSystemPrompt: "",
         comprehensiveSystemPrompt: "",
+        unanswerableSystemPrompt: "",
         knowledgeBaseFiles: [],
         knowledgeBaseFileData: [],
         isDragging: false,
@@ -182,6 +239,7 @@ export const useAppStore = create<AppState>()(
         isEditMode: true,
         showSuccess: false,
         workModel: "",
+        workModelFallbacks: [],
         workModelParams: { ...defaultModelParams }
       },
 
@@ -200,6 +258,25 @@ export const useAppStore = create<AppState>()(
         chunkQuestionCount: 3,
         documentQuestionCount: 5,
         comprehensiveQuestionCount: 30,
+        unanswerableQuestionCount: 0,
+        qaQuestionsPerCall: 1,
+        chunkQuestionsPerCall: 1,
+        documentQuestionsPerCall: 1,
+        comprehensiveQuestionsPerCall: 1,
+        unanswerableQuestionsPerCall: 1,
+        bypassResponseCache: false,
+        runSeed: "",
+        tokenBudget: 0,
+        costBudget: 0,
+        runConcurrency: 1,
+        dedupMode: 'off',
+        dedupThreshold: 0.8,
+        dedupScope: 'run',
+        dedupPromptHint: false,
+        verifyAnswers: false,
+        verifierModel: "",
+        classifyQuestions: false,
+        currentJobId: "",
         currentTask: 0,
         totalTasks: 0,
         progress: 0,
@@ -232,6 +309,9 @@ export const useAppStore = create<AppState>()(
       setComprehensiveSystemPrompt: (prompt) =>
         get().updateProjectConfig({ comprehensiveSystemPrompt: prompt }),
 
+      setUnanswerableSystemPrompt: (prompt) =>
+        get().updateProjectConfig({ unanswerableSystemPrompt: prompt }),
+
       setKnowledgeBaseFiles: (files) => 
         get().updateProjectConfig({ knowledgeBaseFiles: files }),
 
@@ -270,6 +350,9 @@ export const useAppStore = create<AppState>()(
       setWorkModel: (model) =>
         get().updateProjectConfig({ workModel: model }),
 
+      setWorkModelFallbacks: (models) =>
+        get().updateProjectConfig({ workModelFallbacks: models }),
+
       setWorkModelParams: (params) =>
         get().updateProjectConfig({ workModelParams: params }),
 
@@ -316,6 +399,59 @@ export const useAppStore = create<AppState>()(
       setComprehensiveQuestionCount: (count) =>
         get().updateRunResultsConfig({ comprehensiveQuestionCount: count }),
 
+      setUnanswerableQuestionCount: (count) =>
+        get().updateRunResultsConfig({ unanswerableQuestionCount: count }),
+
+      setQuestionsPerCall: (taskType, count) => {
+        const keyMap = {
+          QA: 'qaQuestionsPerCall',
+          Chunk: 'chunkQuestionsPerCall',
+          Document: 'documentQuestionsPerCall',
+          Comprehensive: 'comprehensiveQuestionsPerCall',
+          Unanswerable: 'unanswerableQuestionsPerCall',
+        } as const;
+        get().updateRunResultsConfig({ [keyMap[taskType]]: Math.max(1, count) });
+      },
+
+      setBypassResponseCache: (bypass) =>
+        get().updateRunResultsConfig({ bypassResponseCache: bypass }),
+
+      setRunSeed: (seed) =>
+        get().updateRunResultsConfig({ runSeed: seed.replace(/[^\d]/g, '') }),
+
+      setTokenBudget: (budget) =>
+        get().updateRunResultsConfig({ tokenBudget: Math.max(0, budget) }),
+
+      setCostBudget: (budget) =>
+        get().updateRunResultsConfig({ costBudget: Math.max(0, budget) }),
+
+      setRunConcurrency: (concurrency) =>
+        get().updateRunResultsConfig({ runConcurrency: Math.max(1, Math.floor(concurrency) || 1) }),
+
+      setDedupMode: (mode) =>
+        get().updateRunResultsConfig({ dedupMode: mode }),
+
+      setDedupThreshold: (threshold) =>
+        get().updateRunResultsConfig({ dedupThreshold: Math.min(1, Math.max(0.1, threshold)) }),
+
+      setDedupScope: (scope) =>
+        get().updateRunResultsConfig({ dedupScope: scope }),
+
+      setDedupPromptHint: (enabled) =>
+        get().updateRunResultsConfig({ dedupPromptHint: enabled }),
+
+      setVerifyAnswers: (enabled) =>
+        get().updateRunResultsConfig({ verifyAnswers: enabled }),
+
+      setVerifierModel: (model) =>
+        get().updateRunResultsConfig({ verifierModel: model }),
+
+      setClassifyQuestions: (enabled) =>
+        get().updateRunResultsConfig({ classifyQuestions: enabled }),
+
+      setCurrentJobId: (jobId) =>
+        get().updateRunResultsConfig({ currentJobId: jobId }),
+
       // 添加新的 Actions 实现
       setCurrentTask: (task) =>
         get().updateRunResultsConfig({ currentTask: task }),
@@ -361,20 +497,47 @@ export const useAppStore = create<AppState>()(
           chunkSystemPrompt: state.projectConfig.chunkSystemPrompt,
           documentSystemPrompt: state.projectConfig.documentSystemPrompt,
           comprehensiveSystemPrompt: state.projectConfig.comprehensiveSystemPrompt,
+          unanswerableSystemPrompt: state.projectConfig.unanswerableSystemPrompt,
           knowledgeBaseFiles: state.projectConfig.knowledgeBaseFiles,
           workModel: state.projectConfig.workModel,
+          workModelFallbacks: state.projectConfig.workModelFallbacks,
           workModelParams: state.projectConfig.workModelParams,
         },
         runResultsConfig: {
           qaQuestionCount: state.runResultsConfig.qaQuestionCount,
           chunkQuestionCount: state.runResultsConfig.chunkQuestionCount,
           documentQuestionCount: state.runResultsConfig.documentQuestionCount,
-          comprehensiveQuestionCount: state.runResultsConfig.comprehensiveQuestionCount
+          comprehensiveQuestionCount: state.runResultsConfig.comprehensiveQuestionCount,
+          unanswerableQuestionCount: state.runResultsConfig.unanswerableQuestionCount,
+          qaQuestionsPerCall: state.runResultsConfig.qaQuestionsPerCall,
+          chunkQuestionsPerCall: state.runResultsConfig.chunkQuestionsPerCall,
+          documentQuestionsPerCall: state.runResultsConfig.documentQuestionsPerCall,
+          comprehensiveQuestionsPerCall: state.runResultsConfig.comprehensiveQuestionsPerCall,
+          unanswerableQuestionsPerCall: state.runResultsConfig.unanswerableQuestionsPerCall,
+          tokenBudget: state.runResultsConfig.tokenBudget,
+          costBudget: state.runResultsConfig.costBudget,
+          runConcurrency: state.runResultsConfig.runConcurrency,
+          dedupMode: state.runResultsConfig.dedupMode,
+          dedupThreshold: state.runResultsConfig.dedupThreshold,
+          dedupScope: state.runResultsConfig.dedupScope,
+          dedupPromptHint: state.runResultsConfig.dedupPromptHint,
+          verifyAnswers: state.runResultsConfig.verifyAnswers,
+          verifierModel: state.runResultsConfig.verifierModel,
+          classifyQuestions: state.runResultsConfig.classifyQuestions,
+          currentJobId: state.runResultsConfig.currentJobId
         },
       }),
       // 在重新水合状态时确保默认值正确应用
       onRehydrateStorage: () => (state) => {
         console.log('Rehydrating state with:', state);
+        // 旧版本没有备用模型设置
+        if (state && state.projectConfig && !Array.isArray(state.projectConfig.workModelFallbacks)) {
+          state.projectConfig.workModelFallbacks = [];
+        }
+        // 旧版本没有无法回答问题的提示词
+        if (state && state.projectConfig && state.projectConfig.unanswerableSystemPrompt === undefined) {
+          state.projectConfig.unanswerableSystemPrompt = "";
+        }
         if (state && state.runResultsConfig) {
           // 确保字段存在，但不覆盖用户已保存的值
           if (state.runResultsConfig.qaQuestionCount === undefined) {
@@ -389,6 +552,52 @@ export const useAppStore = create<AppState>()(
           if (state.runResultsConfig.comprehensiveQuestionCount === undefined) {
             state.runResultsConfig.comprehensiveQuestionCount = 30;
           }
+          // 旧版本没有无法回答问题，默认不生成
+          if (state.runResultsConfig.unanswerableQuestionCount === undefined) {
+            state.runResultsConfig.unanswerableQuestionCount = 0;
+          }
+          // 旧版本没有每次调用问题数的设置，默认每次调用生成 1 个问题
+          for (const key of ['qaQuestionsPerCall', 'chunkQuestionsPerCall', 'documentQuestionsPerCall', 'comprehensiveQuestionsPerCall', 'unanswerableQuestionsPerCall'] as const) {
+            if (state.runResultsConfig[key] === undefined) {
+              state.runResultsConfig[key] = 1;
+            }
+          }
+          // 旧版本没有运行预算设置，默认不限制
+          for (const key of ['tokenBudget', 'costBudget'] as const) {
+            if (state.runResultsConfig[key] === undefined) {
+              state.runResultsConfig[key] = 0;
+            }
+          }
+          // 旧版本没有并发设置，默认顺序执行
+          if (state.runResultsConfig.runConcurrency === undefined) {
+            state.runResultsConfig.runConcurrency = 1;
+          }
+          // 旧版本没有去重设置，默认不去重、不在提示词中列出已生成的问题
+          if (state.runResultsConfig.dedupMode === undefined) {
+            state.runResultsConfig.dedupMode = 'off';
+          }
+          if (state.runResultsConfig.dedupThreshold === undefined) {
+            state.runResultsConfig.dedupThreshold = 0.8;
+          }
+          if (state.runResultsConfig.dedupScope === undefined) {
+            state.runResultsConfig.dedupScope = 'run';
+          }
+          if (state.runResultsConfig.dedupPromptHint === undefined) {
+            state.runResultsConfig.dedupPromptHint = false;
+          }
+          // 旧版本没有答案校验设置，默认不校验
+          if (state.runResultsConfig.verifyAnswers === undefined) {
+            state.runResultsConfig.verifyAnswers = false;
+          }
+          if (state.runResultsConfig.verifierModel === undefined) {
+            state.runResultsConfig.verifierModel = "";
+          }
+          if (state.runResultsConfig.classifyQuestions === undefined) {
+            state.runResultsConfig.classifyQuestions = false;
+          }
+          if (state.runResultsConfig.currentJobId === undefined) {
+            state.runResultsConfig.currentJobId = "";
+          }
           console.log('Final state after rehydration:', state.runResultsConfig);
         }
       },